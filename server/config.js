@@ -0,0 +1,26 @@
+// Server configuration - read from the environment (or a local .env file)
+// so the Goyzer credentials never reach the client bundle
+export const loadConfig = () => {
+  try {
+    process.loadEnvFile();
+  } catch {
+    // No .env file - rely on the process environment
+  }
+
+  const accessCode = process.env.GOYZER_ACCESS_CODE;
+  const groupCode = process.env.GOYZER_GROUP_CODE;
+
+  if (!accessCode || !groupCode) {
+    throw new Error('GOYZER_ACCESS_CODE and GOYZER_GROUP_CODE must be set');
+  }
+
+  return {
+    port: parseInt(process.env.LISTINGS_API_PORT || '3001'),
+    allowedOrigin: process.env.LISTINGS_API_ALLOWED_ORIGIN || '*',
+    goyzerBaseUrl: process.env.GOYZER_BASE_URL || 'http://webapi.goyzer.com/Company.asmx',
+    accessCode,
+    groupCode,
+    timeoutMs: parseInt(process.env.GOYZER_TIMEOUT_MS || '15000'),
+    cacheTtlMs: parseInt(process.env.LISTINGS_CACHE_TTL_MS || '300000'),
+  };
+};
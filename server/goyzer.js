@@ -0,0 +1,66 @@
+// Goyzer Company.asmx endpoints and the (empty) filter params they expect
+const FEED_ENDPOINTS = {
+  sale: {
+    method: 'SalesListings',
+    params: [
+      'Bedrooms', 'StartPriceRange', 'EndPriceRange', 'CategoryID', 'SpecialProjects',
+      'CountryID', 'StateID', 'CommunityID', 'DistrictID', 'FloorAreaMin', 'FloorAreaMax',
+      'UnitCategory', 'UnitID', 'BedroomsMax', 'PropertyID', 'ReadyNow', 'PageIndex',
+    ],
+  },
+  rent: {
+    method: 'RentListings',
+    params: [
+      'PropertyType', 'Bedrooms', 'StartPriceRange', 'EndPriceRange', 'categoryID',
+      'CountryID', 'StateID', 'CommunityID', 'FloorAreaMin', 'FloorAreaMax',
+      'UnitCategory', 'UnitID', 'BedroomsMax', 'PropertyID', 'ReadyNow', 'PageIndex',
+    ],
+  },
+};
+
+// In-memory cache so repeated page loads don't hammer the Goyzer API
+const cache = new Map();
+
+const buildFeedUrl = (config, type) => {
+  const { method, params } = FEED_ENDPOINTS[type];
+  const search = new URLSearchParams({
+    AccessCode: config.accessCode,
+    GroupCode: config.groupCode,
+  });
+  params.forEach(param => search.set(param, ''));
+  return `${config.goyzerBaseUrl}/${method}?${search.toString()}`;
+};
+
+export const fetchListingsFeed = async (config, type) => {
+  const cached = cache.get(type);
+  if (cached && Date.now() - cached.fetchedAt < config.cacheTtlMs) {
+    return cached;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    const response = await fetch(buildFeedUrl(config, type), {
+      signal: controller.signal,
+      headers: { 'Accept': 'application/xml, text/xml, */*' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Goyzer responded with ${response.status}`);
+    }
+
+    const entry = { xml: await response.text(), fetchedAt: Date.now() };
+    cache.set(type, entry);
+    return entry;
+  } catch (error) {
+    // Serve the last good copy rather than failing outright
+    if (cached) {
+      console.warn(`Serving cached ${type} listings after upstream failure`);
+      return cached;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
@@ -0,0 +1,57 @@
+import http from 'node:http';
+import { loadConfig } from './config.js';
+import { fetchListingsFeed } from './goyzer.js';
+
+// Local feed service - keeps the Goyzer credentials server-side and exposes
+// the sale/rent XML feeds to the frontend under /api/listings/:type
+const config = loadConfig();
+
+const LISTINGS_ROUTE = /^\/api\/listings\/(sale|rent)\/?$/;
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': config.allowedOrigin,
+    ...headers,
+  });
+  res.end(body);
+};
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204, '', { 'Access-Control-Allow-Methods': 'GET, OPTIONS' });
+    return;
+  }
+
+  if (pathname === '/api/health') {
+    send(res, 200, JSON.stringify({ status: 'ok' }), { 'Content-Type': 'application/json' });
+    return;
+  }
+
+  const match = LISTINGS_ROUTE.exec(pathname);
+  if (!match || req.method !== 'GET') {
+    send(res, 404, JSON.stringify({ error: 'Not found' }), { 'Content-Type': 'application/json' });
+    return;
+  }
+
+  const type = match[1];
+
+  try {
+    const { xml, fetchedAt } = await fetchListingsFeed(config, type);
+    send(res, 200, xml, {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': `public, max-age=${Math.floor(config.cacheTtlMs / 1000)}`,
+      'Last-Modified': new Date(fetchedAt).toUTCString(),
+    });
+  } catch (error) {
+    console.error(`Failed to fetch ${type} listings from Goyzer:`, error);
+    send(res, 502, JSON.stringify({ error: `Failed to fetch ${type} listings` }), {
+      'Content-Type': 'application/json',
+    });
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`Listings service running on http://localhost:${config.port}`);
+});
@@ -5,6 +5,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/index";
 import NotFound from "./pages/NotFound";
+import PropertyDetail from "./pages/PropertyDetail";
+import Shortlist from "./pages/Shortlist";
+import Compare from "./pages/Compare";
+import Insights from "./pages/Insights";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +20,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/property/:id" element={<PropertyDetail />} />
+          <Route path="/shortlist" element={<Shortlist />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/insights" element={<Insights />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
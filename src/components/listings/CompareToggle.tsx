@@ -0,0 +1,23 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { MAX_COMPARE, useCompare } from '@/hooks/use-compare';
+
+// "Compare" checkbox on listing cards - disabled once the tray is full
+const CompareToggle = ({ propertyId }: { propertyId: string }) => {
+  const { isComparing, isFull, toggleCompare } = useCompare();
+  const checked = isComparing(propertyId);
+  const disabled = isFull && !checked;
+  const id = `compare-${propertyId}`;
+
+  return (
+    <label
+      htmlFor={id}
+      className={`flex items-center space-x-2 text-sm ${disabled ? 'text-muted-foreground cursor-not-allowed' : 'cursor-pointer'}`}
+      title={disabled ? `You can compare up to ${MAX_COMPARE} properties` : undefined}
+    >
+      <Checkbox id={id} checked={checked} disabled={disabled} onCheckedChange={() => toggleCompare(propertyId)} />
+      <span>Compare</span>
+    </label>
+  );
+};
+
+export default CompareToggle;
@@ -0,0 +1,55 @@
+import { Link } from 'react-router-dom';
+import { Columns3, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MAX_COMPARE, useCompare } from '@/hooks/use-compare';
+import { usePropertiesById } from '@/hooks/use-listings';
+import { getComparePath } from '@/lib/links';
+import { cn } from '@/lib/utils';
+
+// Sticky bar listing the properties picked for comparison
+const CompareTray = () => {
+  const { compareIds, removeCompare, clearCompare } = useCompare();
+  const { entries } = usePropertiesById(compareIds);
+
+  if (compareIds.length === 0) return null;
+  const canCompare = compareIds.length >= 2;
+
+  return (
+    <div className="sticky bottom-0 z-40 border-t-2 border-primary bg-white/95 backdrop-blur shadow-lg print:hidden">
+      <div className="container mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium">
+          Compare ({compareIds.length}/{MAX_COMPARE})
+        </span>
+        <div className="flex flex-1 flex-wrap gap-2">
+          {entries.map(entry => (
+            <span key={entry.id} className="flex items-center rounded-full border-2 bg-background pl-3 pr-1 py-0.5 text-sm max-w-[16rem]">
+              <span className="truncate">{entry.property?.title ?? (entry.isMissing ? 'No longer listed' : 'Loading...')}</span>
+              <button
+                type="button"
+                onClick={() => removeCompare(entry.id)}
+                className="ml-1 rounded-full p-1 hover:bg-muted"
+                aria-label="Remove from comparison"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" onClick={clearCompare}>Clear</Button>
+        {/* Needs at least two to compare */}
+        <Button size="sm" asChild className={cn('bg-gradient-purple', !canCompare && 'pointer-events-none opacity-50')}>
+          <Link
+            to={getComparePath(compareIds)}
+            aria-disabled={!canCompare}
+            tabIndex={canCompare ? undefined : -1}
+          >
+            <Columns3 className="h-4 w-4 mr-1" />
+            Compare now
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CompareTray;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Loader2, Mail, MessageSquare, Phone, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { formatPropertyArea } from '@/lib/format';
+import type { Property } from '@/types/property';
+
+interface ContactFormData {
+  name: string;
+  email: string;
+  phone: string;
+  message: string;
+}
+
+const EMPTY_FORM: ContactFormData = { name: '', email: '', phone: '', message: '' };
+
+const EnquiryForm = ({ property, onSubmitted }: { property: Property; onSubmitted?: () => void }) => {
+  const [form, setForm] = useState<ContactFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  // Contact form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const webhookData = {
+        contact_name: form.name,
+        contact_email: form.email,
+        contact_phone: form.phone,
+        contact_message: form.message,
+        property_id: property.id,
+        property_title: property.title,
+        property_price: `AED ${property.price.toLocaleString()}`,
+        property_area: formatPropertyArea(property),
+        property_community: property.community,
+        property_type: property.type,
+        property_category: property.category,
+        agent_name: property.agentName || 'Chestertons Agent',
+        timestamp: new Date().toISOString(),
+        source: 'Real Estate Listings App'
+      };
+
+      await fetch('https://hooks.zapier.com/hooks/catch/21352187/utgtlkb/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        mode: 'no-cors',
+        body: JSON.stringify(webhookData)
+      });
+
+      toast({
+        title: "Inquiry Sent Successfully",
+        description: "Thank you for your interest! We'll contact you soon."
+      });
+
+      setForm(EMPTY_FORM);
+      onSubmitted?.();
+
+    } catch (error) {
+      console.error('Error submitting contact form:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send inquiry. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="name" className="flex items-center">
+          <User className="h-4 w-4 mr-1" />
+          Name *
+        </Label>
+        <Input
+          id="name"
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          required
+          className="border-2 focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="email" className="flex items-center">
+          <Mail className="h-4 w-4 mr-1" />
+          Email *
+        </Label>
+        <Input
+          id="email"
+          type="email"
+          value={form.email}
+          onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+          required
+          className="border-2 focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="phone" className="flex items-center">
+          <Phone className="h-4 w-4 mr-1" />
+          Phone *
+        </Label>
+        <Input
+          id="phone"
+          type="tel"
+          value={form.phone}
+          onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+          required
+          className="border-2 focus:ring-primary focus:border-primary"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="message" className="flex items-center">
+          <MessageSquare className="h-4 w-4 mr-1" />
+          Message
+        </Label>
+        <Textarea
+          id="message"
+          value={form.message}
+          onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+          placeholder="Tell us about your commercial property requirements..."
+          className="border-2 focus:ring-primary focus:border-primary"
+          rows={3}
+        />
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-gradient-purple hover:shadow-glow transition-all duration-300"
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Sending Inquiry...
+          </>
+        ) : (
+          'Send Inquiry'
+        )}
+      </Button>
+    </form>
+  );
+};
+
+export default EnquiryForm;
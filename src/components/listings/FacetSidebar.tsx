@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuItem,
+  SidebarSeparator,
+} from '@/components/ui/sidebar';
+import { FACETS, type FacetId, type FacetSelections } from '@/lib/facets';
+import type { FacetOption } from '@/lib/filter-properties';
+
+// Long facets (agents) start collapsed to this many options
+const COLLAPSED_OPTION_COUNT = 6;
+
+const FacetGroup = ({
+  facetId,
+  label,
+  options,
+  selected,
+  onToggle,
+}: {
+  facetId: FacetId;
+  label: string;
+  options: FacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const visibleOptions = expanded ? options : options.slice(0, COLLAPSED_OPTION_COUNT);
+
+  if (options.length === 0) return null;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>{label}</SidebarGroupLabel>
+      <SidebarGroupContent>
+        <SidebarMenu>
+          {visibleOptions.map(option => {
+            const id = `facet-${facetId}-${option.value}`;
+            const isSelected = selected.includes(option.value);
+            return (
+              <SidebarMenuItem key={option.value}>
+                <label
+                  htmlFor={id}
+                  className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-sidebar-accent ${
+                    option.count === 0 && !isSelected ? 'opacity-50' : ''
+                  }`}
+                >
+                  <Checkbox
+                    id={id}
+                    checked={isSelected}
+                    disabled={option.count === 0 && !isSelected}
+                    onCheckedChange={() => onToggle(option.value)}
+                  />
+                  <span className="flex-1 truncate">{option.label}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">{option.count}</span>
+                </label>
+              </SidebarMenuItem>
+            );
+          })}
+        </SidebarMenu>
+        {options.length > COLLAPSED_OPTION_COUNT && (
+          <Button variant="link" size="sm" className="px-2 h-auto" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Show fewer' : `Show all ${options.length}`}
+          </Button>
+        )}
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+const FacetSidebar = ({
+  options,
+  selections,
+  onToggle,
+  onClear,
+}: {
+  options: Record<FacetId, FacetOption[]>;
+  selections: FacetSelections;
+  onToggle: (facetId: FacetId, value: string) => void;
+  onClear: () => void;
+}) => {
+  const hasSelections = FACETS.some(facet => selections[facet.id].length > 0);
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="flex-row items-center justify-between">
+        <div className="flex items-center font-semibold">
+          <SlidersHorizontal className="h-4 w-4 mr-2 text-primary" />
+          Refine results
+        </div>
+        {hasSelections && (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+        )}
+      </SidebarHeader>
+      <SidebarSeparator />
+      <SidebarContent>
+        {FACETS.map(facet => (
+          <FacetGroup
+            key={facet.id}
+            facetId={facet.id}
+            label={facet.label}
+            options={options[facet.id]}
+            selected={selections[facet.id]}
+            onToggle={(value) => onToggle(facet.id, value)}
+          />
+        ))}
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export default FacetSidebar;
@@ -0,0 +1,41 @@
+import { Heart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFavourites } from '@/hooks/use-favourites';
+import { cn } from '@/lib/utils';
+
+// Heart toggle for adding a property to the local shortlist
+const FavouriteButton = ({
+  propertyId,
+  showLabel = false,
+  className,
+}: {
+  propertyId: string;
+  showLabel?: boolean;
+  className?: string;
+}) => {
+  const { isFavourite, toggleFavourite } = useFavourites();
+  const active = isFavourite(propertyId);
+  const label = active ? 'Remove from shortlist' : 'Add to shortlist';
+
+  return (
+    <Button
+      type="button"
+      variant={showLabel ? 'outline' : 'ghost'}
+      size={showLabel ? 'sm' : 'icon'}
+      aria-label={label}
+      aria-pressed={active}
+      title={label}
+      onClick={(e) => {
+        // Cards are clickable - don't open the listing as well
+        e.stopPropagation();
+        toggleFavourite(propertyId);
+      }}
+      className={className}
+    >
+      <Heart className={cn('h-4 w-4', active && 'fill-red-500 text-red-500', showLabel && 'mr-1')} />
+      {showLabel && (active ? 'Shortlisted' : 'Shortlist')}
+    </Button>
+  );
+};
+
+export default FavouriteButton;
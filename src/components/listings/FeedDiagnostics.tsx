@@ -0,0 +1,168 @@
+import { Bug, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useFeedReport } from '@/hooks/use-listings';
+import { useToast } from '@/hooks/use-toast';
+import { countByReason, type FeedReport } from '@/feeds/goyzer';
+import type { ListingType } from '@/types/property';
+
+// Rows shown per table - the full report is available via "Copy JSON"
+const MAX_ROWS = 200;
+
+const ReportView = ({ report }: { report: FeedReport | null | undefined }) => {
+  const { toast } = useToast();
+
+  if (!report) {
+    return <div className="text-sm text-muted-foreground py-6">No report yet - the feed is still loading.</div>;
+  }
+
+  // Residential units are expected in the feed, so they're counted but not listed
+  const problems = report.rejected.filter(listing => listing.reason !== 'residential-category');
+  const reasonCounts = countByReason(report.rejected);
+
+  const copyReport = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+      toast({ title: "Report Copied", description: `${report.type} feed report copied to the clipboard` });
+    } catch (error) {
+      console.error('Error copying feed report:', error);
+      toast({ title: "Error", description: "Could not copy the report.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div><div className="text-2xl font-bold">{report.total}</div>Total</div>
+        <div><div className="text-2xl font-bold text-primary">{report.accepted}</div>Accepted</div>
+        <div><div className="text-2xl font-bold text-destructive">{report.rejected.length}</div>Rejected</div>
+        <div><div className="text-2xl font-bold">{report.defaulted.length}</div>Defaulted</div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(reasonCounts).map(([reason, count]) => (
+          <Badge key={reason} variant="secondary">{reason}: {count}</Badge>
+        ))}
+      </div>
+
+      {Object.keys(report.unmappedCategories).length > 0 && (
+        <div>
+          <div className="font-semibold mb-2">Unmapped categories</div>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(report.unmappedCategories).map(([category, count]) => (
+              <Badge key={category} variant="outline">{category} ({count})</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.duplicateIds.length > 0 && (
+        <div>
+          <div className="font-semibold mb-2">Duplicate IDs</div>
+          <div className="text-muted-foreground break-all">{report.duplicateIds.join(', ')}</div>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <div>
+          <div className="font-semibold mb-2">Rejected listings ({problems.length})</div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Ref</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {problems.slice(0, MAX_ROWS).map(listing => (
+                <TableRow key={listing.index}>
+                  <TableCell>{listing.index}</TableCell>
+                  <TableCell>{listing.reference || '-'}</TableCell>
+                  <TableCell>{listing.title || '-'}</TableCell>
+                  <TableCell>
+                    {listing.reason}
+                    {listing.details.length > 0 && (
+                      <div className="text-xs text-muted-foreground">{listing.details.join('; ')}</div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {report.defaulted.length > 0 && (
+        <div>
+          <div className="font-semibold mb-2">Listings with defaulted fields ({report.defaulted.length})</div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ref</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Defaulted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.defaulted.slice(0, MAX_ROWS).map(listing => (
+                <TableRow key={listing.id}>
+                  <TableCell>{listing.reference || '-'}</TableCell>
+                  <TableCell>{listing.title}</TableCell>
+                  <TableCell>{listing.fields.join(', ')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={copyReport}>
+        <Copy className="h-4 w-4 mr-1" />
+        Copy JSON
+      </Button>
+    </div>
+  );
+};
+
+const FeedReportTab = ({ type }: { type: ListingType }) => {
+  const report = useFeedReport(type);
+  return <ReportView report={report} />;
+};
+
+// Developer-only panel showing what the parser accepted, rejected and defaulted
+const FeedDiagnostics = () => {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="fixed bottom-4 left-4 z-50 shadow-lg bg-white">
+          <Bug className="h-4 w-4 mr-1" />
+          Feed diagnostics
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Feed diagnostics</SheetTitle>
+          <SheetDescription>Validation results for the latest Goyzer feed parse.</SheetDescription>
+        </SheetHeader>
+        <Tabs defaultValue="sale" className="mt-4">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="sale">Sales</TabsTrigger>
+            <TabsTrigger value="rent">Rentals</TabsTrigger>
+          </TabsList>
+          <ScrollArea className="h-[calc(100vh-12rem)] pr-4">
+            <TabsContent value="sale"><FeedReportTab type="sale" /></TabsContent>
+            <TabsContent value="rent"><FeedReportTab type="rent" /></TabsContent>
+          </ScrollArea>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default FeedDiagnostics;
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Clock } from 'lucide-react';
+
+// "Last updated N minutes ago" - re-renders every minute so the label stays current
+const LastUpdated = ({ timestamp }: { timestamp: number }) => {
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (!timestamp) return null;
+
+  return (
+    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+      <Clock className="h-4 w-4" />
+      <span title={new Date(timestamp).toLocaleString()}>
+        Last updated {formatDistanceToNow(timestamp, { addSuffix: true })}
+      </span>
+    </div>
+  );
+};
+
+export default LastUpdated;
@@ -0,0 +1,96 @@
+import type { MouseEvent } from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PAGE_SIZES } from '@/lib/listing-filters';
+import { getPageItems } from '@/lib/pagination';
+
+const ListingPagination = ({
+  page,
+  pageCount,
+  pageSize,
+  total,
+  getPageHref,
+  onPageChange,
+  onPageSizeChange,
+}: {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  total: number;
+  getPageHref: (page: number) => string;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}) => {
+  const firstItem = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastItem = Math.min(page * pageSize, total);
+
+  // Real links so pages can be opened in a new tab, routed client-side otherwise
+  const linkProps = (target: number) => ({
+    href: getPageHref(target),
+    onClick: (e: MouseEvent<HTMLAnchorElement>) => {
+      e.preventDefault();
+      onPageChange(target);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    },
+  });
+
+  return (
+    <div className="flex flex-col md:flex-row items-center justify-between gap-4 mt-8">
+      <div className="text-sm text-muted-foreground">
+        Showing {firstItem}-{lastItem} of {total}
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            {page > 1 && (
+              <PaginationItem>
+                <PaginationPrevious {...linkProps(page - 1)} />
+              </PaginationItem>
+            )}
+            {getPageItems(page, pageCount).map((item, index) => (
+              <PaginationItem key={item === 'ellipsis' ? `ellipsis-${index}` : item}>
+                {item === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink isActive={item === page} {...linkProps(item)}>
+                    {item}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            {page < pageCount && (
+              <PaginationItem>
+                <PaginationNext {...linkProps(page + 1)} />
+              </PaginationItem>
+            )}
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <span>Per page</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="w-20 h-9" aria-label="Listings per page">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZES.map(size => (
+              <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default ListingPagination;
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import L from 'leaflet';
+import { CircleMarker, GeoJSON, MapContainer, Marker, TileLayer, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import Supercluster from 'supercluster';
+import ShapeDrawControl from '@/components/listings/ShapeDrawControl';
+import { getCommunityByName } from '@/lib/communities';
+import { formatPrice } from '@/lib/format';
+import { COMMUNITY_BOUNDARIES, getPropertyPosition, type SearchShape } from '@/lib/geo';
+import type { Property } from '@/types/property';
+import 'leaflet/dist/leaflet.css';
+
+// Brand purple (--primary)
+const PRIMARY = '#6C207E';
+const HIGHLIGHT = '#f59e0b';
+const DUBAI_CENTRE: L.LatLngTuple = [25.12, 55.23];
+
+interface PointProperties {
+  property: Property;
+  approximate: boolean;
+}
+
+const clusterIcon = (count: number) => L.divIcon({
+  html: `<div class="flex h-9 w-9 items-center justify-center rounded-full border-2 border-white bg-primary text-xs font-semibold text-primary-foreground shadow-lg">${count}</div>`,
+  className: '',
+  iconSize: [36, 36],
+});
+
+// Zoom to whichever community tab is active
+const FitToCommunity = ({ slug }: { slug?: string }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const feature = COMMUNITY_BOUNDARIES.features.find(candidate => candidate.properties.slug === slug);
+    if (feature) map.fitBounds(L.geoJSON(feature).getBounds(), { padding: [24, 24] });
+  }, [map, slug]);
+
+  return null;
+};
+
+// Markers, grouped with supercluster for the current viewport and zoom
+const ClusteredMarkers = ({
+  properties,
+  hoveredId,
+  selectedId,
+  onHover,
+  onSelect,
+}: {
+  properties: Property[];
+  hoveredId: string | null;
+  selectedId: string | null;
+  onHover: (id: string | null) => void;
+  onSelect: (id: string) => void;
+}) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }));
+  useMapEvents({
+    moveend: () => setView({ bounds: map.getBounds(), zoom: map.getZoom() }),
+  });
+
+  const index = useMemo(() => {
+    const points = properties.flatMap(property => {
+      const position = getPropertyPosition(property);
+      if (!position) return [];
+      return [{
+        type: 'Feature' as const,
+        properties: { property, approximate: position.approximate },
+        geometry: { type: 'Point' as const, coordinates: [position.longitude, position.latitude] },
+      }];
+    });
+
+    const cluster = new Supercluster<PointProperties>({ radius: 60, maxZoom: 17 });
+    cluster.load(points);
+    return cluster;
+  }, [properties]);
+
+  const features = useMemo(() => {
+    const { bounds, zoom } = view;
+    return index.getClusters([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()], Math.round(zoom));
+  }, [index, view]);
+
+  // Bring a listing picked from the list into view
+  useEffect(() => {
+    const property = properties.find(candidate => candidate.id === selectedId);
+    const position = property && getPropertyPosition(property);
+    if (!position) return;
+
+    const target = L.latLng(position.latitude, position.longitude);
+    if (!map.getBounds().contains(target)) map.panTo(target);
+  }, [map, properties, selectedId]);
+
+  return (
+    <>
+      {features.map(feature => {
+        const [longitude, latitude] = feature.geometry.coordinates;
+
+        if ('cluster' in feature.properties && feature.properties.cluster) {
+          const clusterId = feature.properties.cluster_id;
+          return (
+            <Marker
+              key={`cluster-${clusterId}`}
+              position={[latitude, longitude]}
+              icon={clusterIcon(feature.properties.point_count)}
+              eventHandlers={{
+                click: () => map.setView([latitude, longitude], Math.min(index.getClusterExpansionZoom(clusterId), 18)),
+              }}
+            />
+          );
+        }
+
+        const { property, approximate } = feature.properties as PointProperties;
+        const isActive = property.id === hoveredId || property.id === selectedId;
+        return (
+          <CircleMarker
+            key={property.id}
+            center={[latitude, longitude]}
+            radius={isActive ? 10 : 7}
+            pathOptions={{
+              color: '#fff',
+              weight: 2,
+              fillColor: isActive ? HIGHLIGHT : PRIMARY,
+              fillOpacity: approximate ? 0.6 : 0.9,
+              dashArray: approximate ? '3' : undefined,
+            }}
+            eventHandlers={{
+              mouseover: () => onHover(property.id),
+              mouseout: () => onHover(null),
+              click: () => onSelect(property.id),
+            }}
+          >
+            <Tooltip direction="top" offset={[0, -8]}>
+              <div className="font-semibold">{property.title}</div>
+              <div>{formatPrice(property.price)}{property.type === 'rent' ? '/year' : ''}</div>
+              {approximate && <div className="text-muted-foreground">Approximate location</div>}
+            </Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+};
+
+const ListingsMap = ({
+  properties,
+  activeCommunity,
+  shape,
+  hoveredId,
+  selectedId,
+  onHover,
+  onSelect,
+  onCommunitySelect,
+  onShapeChange,
+}: {
+  properties: Property[];
+  activeCommunity: string;
+  shape: SearchShape | null;
+  hoveredId: string | null;
+  selectedId: string | null;
+  onHover: (id: string | null) => void;
+  onSelect: (id: string) => void;
+  onCommunitySelect: (community: string) => void;
+  onShapeChange: (shape: SearchShape | null) => void;
+}) => {
+  const activeSlug = getCommunityByName(activeCommunity)?.slug;
+  // Clicks while drawing place corners - they shouldn't switch community too
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  return (
+    <MapContainer center={DUBAI_CENTRE} zoom={12} className="h-full w-full z-0" scrollWheelZoom>
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      {/* Re-created when the active community changes so the highlight follows */}
+      <GeoJSON
+        key={activeSlug}
+        data={COMMUNITY_BOUNDARIES}
+        style={(feature) => {
+          const isActive = feature?.properties.slug === activeSlug;
+          return { color: PRIMARY, weight: isActive ? 3 : 1.5, fillOpacity: isActive ? 0.08 : 0.03, dashArray: isActive ? undefined : '4' };
+        }}
+        eventHandlers={{
+          click: (event) => {
+            if (!isDrawing) onCommunitySelect(event.propagatedFrom.feature.properties.name);
+          },
+        }}
+      />
+      <FitToCommunity slug={activeSlug} />
+      <ShapeDrawControl shape={shape} color={PRIMARY} onShapeChange={onShapeChange} onDrawingChange={setIsDrawing} />
+      <ClusteredMarkers
+        properties={properties}
+        hoveredId={hoveredId}
+        selectedId={selectedId}
+        onHover={onHover}
+        onSelect={onSelect}
+      />
+    </MapContainer>
+  );
+};
+
+export default ListingsMap;
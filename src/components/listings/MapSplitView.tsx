@@ -0,0 +1,86 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import ListingsMap from '@/components/listings/ListingsMap';
+import type { SearchShape } from '@/lib/geo';
+import { cn } from '@/lib/utils';
+import type { Property } from '@/types/property';
+
+const getListingElementId = (id: string) => `map-listing-${id}`;
+
+// Card list beside the map - hovering or picking on either side highlights the other
+const MapSplitView = ({
+  mapProperties,
+  listProperties,
+  renderCard,
+  activeCommunity,
+  shape,
+  onCommunitySelect,
+  onShapeChange,
+}: {
+  // Everything in the current results goes on the map; the list may be a single page
+  mapProperties: Property[];
+  listProperties: Property[];
+  renderCard: (property: Property) => ReactNode;
+  activeCommunity: string;
+  shape: SearchShape | null;
+  onCommunitySelect: (community: string) => void;
+  onShapeChange: (shape: SearchShape | null) => void;
+}) => {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Marker clicked - scroll its card into view
+  useEffect(() => {
+    if (!selectedId) return;
+    document.getElementById(getListingElementId(selectedId))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [selectedId]);
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="min-h-[70vh] rounded-lg border-2 bg-white">
+      <ResizablePanel defaultSize={45} minSize={25}>
+        <div className="h-[70vh] overflow-y-auto p-4">
+          {listProperties.length === 0 && (
+            <div className="text-center text-muted-foreground py-12">
+              {shape
+                ? 'No listings inside the search area. Redraw it or clear it on the map.'
+                : 'No listings match your criteria.'}
+            </div>
+          )}
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {listProperties.map(property => (
+              <div
+                key={property.id}
+                id={getListingElementId(property.id)}
+                onMouseEnter={() => setHoveredId(property.id)}
+                onMouseLeave={() => setHoveredId(null)}
+                onClickCapture={() => setSelectedId(property.id)}
+                className={cn(
+                  'rounded-lg transition-shadow',
+                  (property.id === hoveredId || property.id === selectedId) && 'ring-4 ring-amber-400'
+                )}
+              >
+                {renderCard(property)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={55} minSize={25}>
+        <ListingsMap
+          properties={mapProperties}
+          activeCommunity={activeCommunity}
+          shape={shape}
+          hoveredId={hoveredId}
+          selectedId={selectedId}
+          onHover={setHoveredId}
+          onSelect={setSelectedId}
+          onCommunitySelect={onCommunitySelect}
+          onShapeChange={onShapeChange}
+        />
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+};
+
+export default MapSplitView;
@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge';
+import { formatPrice } from '@/lib/format';
+import { getListingBadges, type ListingHistory } from '@/lib/price-history';
+import { cn } from '@/lib/utils';
+
+// "New" / "Price reduced X%" from the locally recorded history
+const PriceChangeBadges = ({ history, className }: { history?: ListingHistory; className?: string }) => {
+  const { isNew, reduction } = getListingBadges(history);
+  if (!isNew && !reduction) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {isNew && <Badge className="bg-success text-success-foreground hover:bg-success">New</Badge>}
+      {reduction && (
+        <Badge variant="destructive" title={`Was ${formatPrice(reduction.from)}`}>
+          Price reduced {Math.abs(reduction.ratio * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%
+        </Badge>
+      )}
+    </div>
+  );
+};
+
+export default PriceChangeBadges;
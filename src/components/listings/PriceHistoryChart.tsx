@@ -0,0 +1,92 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatDate, formatPrice } from '@/lib/format';
+import type { ListingHistory } from '@/lib/price-history';
+
+const chartConfig = {
+  price: { label: 'Asking price', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatTimestamp = (at: number) => formatDate(new Date(at).toISOString());
+
+const formatCompact = (value: number) => {
+  return value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+};
+
+// Asking price over time as recorded on this device, stepping at each change
+const PriceHistoryChart = ({ history }: { history?: ListingHistory }) => {
+  if (!history) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Price changes are tracked from the next time listings are refreshed in this browser.
+      </p>
+    );
+  }
+
+  const [first] = history.prices;
+  if (history.prices.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No price changes since we started tracking this listing on {formatTimestamp(first.at)}.
+      </p>
+    );
+  }
+
+  // Carry the current price through to today so the last step has some width
+  const latest = history.prices[history.prices.length - 1];
+  const data = [...history.prices, { price: latest.price, at: Math.max(Date.now(), latest.at) }];
+  const changes = history.prices.slice(1).map((point, index) => ({
+    ...point,
+    ratio: (point.price - history.prices[index].price) / history.prices[index].price,
+  }));
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="at"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatTimestamp}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={32}
+          />
+          <YAxis tickFormatter={formatCompact} tickLine={false} axisLine={false} width={48} domain={['auto', 'auto']} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const at = payload?.[0]?.payload?.at as number | undefined;
+                  return at ? formatTimestamp(at) : null;
+                }}
+                formatter={(value) => formatPrice(Number(value))}
+              />
+            }
+          />
+          <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot={{ r: 3 }} />
+        </LineChart>
+      </ChartContainer>
+
+      <ul className="space-y-1 text-sm">
+        {changes.reverse().map(change => (
+          <li key={change.at} className="flex justify-between">
+            <span className="text-muted-foreground">{formatTimestamp(change.at)}</span>
+            <span>
+              {formatPrice(change.price)}
+              <span className={change.ratio < 0 ? 'ml-2 text-destructive' : 'ml-2 text-success'}>
+                {change.ratio > 0 ? '+' : ''}
+                {(change.ratio * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
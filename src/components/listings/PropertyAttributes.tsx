@@ -0,0 +1,15 @@
+import { getPropertyAttributes } from '@/lib/property-attributes';
+import type { Property } from '@/types/property';
+
+const PropertyAttributes = ({ property }: { property: Property }) => (
+  <div className="space-y-2 text-sm">
+    {getPropertyAttributes(property).map(({ label, value, highlight }) => (
+      <div key={label} className="flex justify-between gap-4">
+        <span className="text-muted-foreground">{label}:</span>
+        <span className={`font-semibold text-right ${highlight ? 'text-primary' : ''}`}>{value}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export default PropertyAttributes;
@@ -0,0 +1,212 @@
+import { memo } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, ExternalLink, Link2, MapPin, Square, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogTrigger } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import CompareToggle from '@/components/listings/CompareToggle';
+import FavouriteButton from '@/components/listings/FavouriteButton';
+import PriceChangeBadges from '@/components/listings/PriceChangeBadges';
+import { formatPricePerSqft, formatPropertyArea } from '@/lib/format';
+import { getPropertyPath, getPropertyUrl } from '@/lib/links';
+import type { ListingHistory } from '@/lib/price-history';
+import { getPricePerSqft } from '@/lib/pricing';
+import type { Property } from '@/types/property';
+
+// Fallback image used when a listing image fails to load
+import heroProperty1 from '@/assets/react.svg';
+
+// Property Card Skeleton Component
+export const PropertyCardSkeleton = () => (
+  <Card className="overflow-hidden bg-gradient-card shadow-card border-2">
+    <div className="relative h-64 overflow-hidden">
+      <Skeleton className="w-full h-full" />
+    </div>
+    <CardContent className="p-6">
+      <Skeleton className="h-6 w-3/4 mb-2" />
+      <Skeleton className="h-8 w-1/2 mb-4" />
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="flex items-center">
+          <Skeleton className="h-4 w-4 mr-1" />
+          <Skeleton className="h-4 w-16" />
+        </div>
+        <div className="flex items-center">
+          <Skeleton className="h-4 w-4 mr-1" />
+          <Skeleton className="h-4 w-20" />
+        </div>
+      </div>
+      <Skeleton className="h-4 w-24 mb-4" />
+      <Skeleton className="h-10 w-full" />
+    </CardContent>
+  </Card>
+);
+
+// Memoized PropertyCard component
+const PropertyCard = memo(({
+  property,
+  currentIndex,
+  onPrevImage,
+  onNextImage,
+  onImageIndexChange,
+  onImageLoad,
+  onSelectProperty,
+  isImageLoaded,
+  formatPrice,
+  history
+}: {
+  property: Property;
+  currentIndex: number;
+  onPrevImage: () => void;
+  onNextImage: () => void;
+  onImageIndexChange: (index: number) => void;
+  onImageLoad: (src: string) => void;
+  onSelectProperty: (property: Property) => void;
+  isImageLoaded: boolean;
+  formatPrice: (price: number) => string;
+  history?: ListingHistory;
+}) => {
+  const { toast } = useToast();
+  const pricePerSqft = getPricePerSqft(property);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getPropertyUrl(property.id));
+      toast({ title: "Link Copied", description: "Share it with your client to open this property directly." });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden bg-gradient-card shadow-card hover:shadow-glow transition-all duration-300 border-2 hover:border-primary group transform-gpu will-change-transform">
+      <div className="relative h-64 overflow-hidden">
+        {!isImageLoaded && (
+          <div className="absolute inset-0 bg-muted animate-pulse flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        )}
+        <img
+          src={property.images[currentIndex]}
+          alt={property.title}
+          loading="lazy"
+          className={`w-full h-full object-cover transition-all duration-300 group-hover:scale-105 ${isImageLoaded ? 'opacity-100' : 'opacity-0'
+            }`}
+          onLoad={() => onImageLoad(property.images[currentIndex])}
+          onError={(e) => {
+            const target = e.target as HTMLImageElement;
+            target.src = heroProperty1;
+            onImageLoad(heroProperty1);
+          }}
+        />
+
+        <PriceChangeBadges history={history} className="absolute top-2 left-2 z-10" />
+
+        <FavouriteButton
+          propertyId={property.id}
+          className="absolute top-2 right-2 z-10 rounded-full bg-white/90 hover:bg-white"
+        />
+
+        {property.images.length > 1 && isImageLoaded && (
+          <>
+            <button
+              onClick={onPrevImage}
+              className="absolute left-2 top-1/2 transform -translate-y-1/2 bg-primary/80 hover:bg-primary text-primary-foreground rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+              aria-label="Previous image"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={onNextImage}
+              className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-primary/80 hover:bg-primary text-primary-foreground rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+              aria-label="Next image"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+
+            <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 flex space-x-1">
+              {property.images.map((_, index) => (
+                <button
+                  key={index}
+                  onClick={() => onImageIndexChange(index)}
+                  className={`w-2 h-2 rounded-full transition-colors duration-200 ${index === currentIndex ? 'bg-primary' : 'bg-primary-foreground/50'
+                    }`}
+                  aria-label={`Go to image ${index + 1}`}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <CardContent className="p-6">
+        <h3 className="text-xl font-semibold text-foreground mb-2">{property.title}</h3>
+
+        <div className="mb-4">
+          <div className="text-2xl font-bold text-primary">
+            {formatPrice(property.price)}
+            {property.type === 'rent' && <span className="text-sm font-normal text-muted-foreground">/year</span>}
+          </div>
+          {pricePerSqft !== undefined && (
+            <div className="text-sm text-muted-foreground">{formatPricePerSqft(pricePerSqft, property.type)}</div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-4 text-sm text-muted-foreground">
+          <div className="flex items-center">
+            <Square className="h-4 w-4 mr-1" />
+            {formatPropertyArea(property)}
+          </div>
+          <div className="flex items-center">
+            <MapPin className="h-4 w-4 mr-1" />
+            {property.community}
+          </div>
+        </div>
+
+        {property.category && (
+          <div className="text-sm text-muted-foreground mb-4">
+            Category: <span className="font-medium">{property.category}</span>
+          </div>
+        )}
+
+        {property.agentName && (
+          <div className="text-sm text-muted-foreground mb-4 flex items-center">
+            <User className="h-3 w-3 mr-1" />
+            Listed by: <span className="font-medium ml-1 text-primary">{property.agentName}</span>
+          </div>
+        )}
+
+        <div className="mb-4">
+          <CompareToggle propertyId={property.id} />
+        </div>
+
+        <div className="flex space-x-2">
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button
+                className="flex-1 bg-gradient-purple hover:shadow-glow transition-all duration-300"
+                onClick={() => onSelectProperty(property)}
+              >
+                View Details & Contact
+              </Button>
+            </DialogTrigger>
+          </Dialog>
+          <Button variant="outline" size="icon" asChild>
+            <Link to={getPropertyPath(property.id)} aria-label="Open property page">
+              <ExternalLink className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy link">
+            <Link2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+
+PropertyCard.displayName = 'PropertyCard';
+
+export default PropertyCard;
@@ -0,0 +1,98 @@
+import { useNavigate } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatPrice, formatPricePerSqft, formatPropertyArea } from '@/lib/format';
+import { getPropertyPath } from '@/lib/links';
+import { getColumnSortDirection, getNextColumnSort, type SortColumn, type SortOption } from '@/lib/listing-sort';
+import { getPricePerSqft } from '@/lib/pricing';
+import type { Property } from '@/types/property';
+
+const COLUMNS: { id: SortColumn; label: string; numeric?: boolean }[] = [
+  { id: 'title', label: 'Title' },
+  { id: 'category', label: 'Category' },
+  { id: 'community', label: 'Community' },
+  { id: 'area', label: 'Area', numeric: true },
+  { id: 'price', label: 'Price', numeric: true },
+  { id: 'pricePerSqft', label: 'Price/sq ft', numeric: true },
+  { id: 'agent', label: 'Agent' },
+];
+
+const SortIcon = ({ direction }: { direction?: 'asc' | 'desc' }) => {
+  if (direction === 'asc') return <ArrowUp className="h-3 w-3" />;
+  if (direction === 'desc') return <ArrowDown className="h-3 w-3" />;
+  return <ArrowUpDown className="h-3 w-3 opacity-40" />;
+};
+
+// Dense alternative to the card grid - rows open the property detail page
+const PropertyTable = ({
+  properties,
+  sort,
+  onSortChange,
+}: {
+  properties: Property[];
+  sort: SortOption;
+  onSortChange: (sort: SortOption) => void;
+}) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="rounded-lg border-2 bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {COLUMNS.map(column => {
+              const direction = getColumnSortDirection(column.id, sort);
+              return (
+                <TableHead
+                  key={column.id}
+                  className={column.numeric ? 'text-right' : undefined}
+                  aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSortChange(getNextColumnSort(column.id, sort))}
+                    className={`inline-flex items-center gap-1 hover:text-foreground ${direction ? 'text-foreground' : ''}`}
+                  >
+                    {column.label}
+                    <SortIcon direction={direction} />
+                  </button>
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {properties.map(property => {
+            const pricePerSqft = getPricePerSqft(property);
+            const openDetail = () => navigate(getPropertyPath(property.id));
+
+            return (
+              <TableRow
+                key={property.id}
+                tabIndex={0}
+                onClick={openDetail}
+                onKeyDown={(e) => e.key === 'Enter' && openDetail()}
+                className="cursor-pointer"
+              >
+                <TableCell className="font-medium max-w-xs truncate">{property.title}</TableCell>
+                <TableCell>{property.category ?? '-'}</TableCell>
+                <TableCell>{property.community}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{formatPropertyArea(property)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap font-semibold text-primary">
+                  {formatPrice(property.price)}
+                  {property.type === 'rent' && <span className="text-xs font-normal text-muted-foreground">/year</span>}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {pricePerSqft !== undefined ? formatPricePerSqft(pricePerSqft, property.type) : '-'}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{property.agentName ?? '-'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default PropertyTable;
@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, Cell } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import type { NumericRange } from '@/lib/listing-filters';
+import { buildHistogram, clampRange, getRangeBounds, getRangeStep, toRangeFilter, type HistogramBin } from '@/lib/ranges';
+
+const chartConfig = {
+  count: { label: 'Listings', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// Numeric entry that only commits on blur / Enter, so half-typed values don't jump the slider
+const BoundInput = ({
+  value,
+  label,
+  onCommit,
+}: {
+  value: number;
+  label: string;
+  onCommit: (value: number) => void;
+}) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(text);
+    if (text.trim() === '' || Number.isNaN(parsed)) {
+      setText(String(value));
+      return;
+    }
+    onCommit(parsed);
+  };
+
+  return (
+    <Input
+      type="number"
+      inputMode="numeric"
+      aria-label={label}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="h-8 text-xs border-2"
+    />
+  );
+};
+
+const RangeFilter = ({
+  label,
+  values,
+  range,
+  onRangeChange,
+  formatValue,
+}: {
+  label: string;
+  // Every value in the current tab - drives the bounds and the histogram
+  values: number[];
+  range: NumericRange | null;
+  onRangeChange: (range: NumericRange | null) => void;
+  formatValue: (value: number) => string;
+}) => {
+  const bounds = useMemo(() => getRangeBounds(values), [values]);
+  const histogram = useMemo(() => buildHistogram(values, bounds), [values, bounds]);
+  const step = getRangeStep(bounds);
+  const selected = clampRange(range ?? bounds, bounds);
+  const isEmpty = values.length === 0;
+
+  const isBinSelected = (bin: HistogramBin) => bin.end >= selected[0] && bin.start <= selected[1];
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium">{label}</Label>
+
+      {histogram.length > 0 && (
+        <ChartContainer config={chartConfig} className="aspect-auto h-12 w-full">
+          <BarChart data={histogram} margin={{ top: 0, right: 0, bottom: 0, left: 0 }} barCategoryGap={1}>
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  hideIndicator
+                  labelFormatter={(_, payload) => {
+                    const bin = payload?.[0]?.payload as HistogramBin | undefined;
+                    return bin ? `${formatValue(bin.start)} - ${formatValue(bin.end)}` : null;
+                  }}
+                />
+              }
+            />
+            <Bar dataKey="count" radius={[2, 2, 0, 0]}>
+              {histogram.map(bin => (
+                <Cell
+                  key={bin.start}
+                  fill={isBinSelected(bin) ? 'var(--color-count)' : 'hsl(var(--muted))'}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      )}
+
+      <Slider
+        min={bounds[0]}
+        max={bounds[1]}
+        step={step}
+        value={selected}
+        minStepsBetweenThumbs={0}
+        disabled={isEmpty}
+        onValueChange={(value) => onRangeChange(toRangeFilter([value[0], value[1]], bounds))}
+        aria-label={label}
+      />
+
+      <div className="flex items-center space-x-2">
+        <BoundInput
+          label={`Minimum ${label.toLowerCase()}`}
+          value={selected[0]}
+          onCommit={(value) => onRangeChange(toRangeFilter([value, selected[1]], bounds))}
+        />
+        <span className="text-muted-foreground text-xs">to</span>
+        <BoundInput
+          label={`Maximum ${label.toLowerCase()}`}
+          value={selected[1]}
+          onCommit={(value) => onRangeChange(toRangeFilter([selected[0], value], bounds))}
+        />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {isEmpty ? 'No listings loaded yet' : `${formatValue(selected[0])} - ${formatValue(selected[1])}`}
+      </div>
+    </div>
+  );
+};
+
+export default RangeFilter;
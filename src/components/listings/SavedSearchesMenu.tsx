@@ -0,0 +1,103 @@
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, BookmarkPlus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { useSavedSearches } from '@/hooks/use-saved-searches';
+import { useToast } from '@/hooks/use-toast';
+import type { ListingFilters } from '@/lib/listing-filters';
+
+const SavedSearchesMenu = ({
+  filters,
+  matchIds,
+  canSave = true,
+}: {
+  // Current filters and the IDs they match - those don't count as new later
+  filters: ListingFilters;
+  matchIds: string[];
+  // Off while the feed is still streaming in, or half the results would look new
+  canSave?: boolean;
+}) => {
+  const { savedSearches, saveSearch, deleteSearch, markSeen, totalNew } = useSavedSearches();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !canSave) return;
+
+    saveSearch(name.trim(), filters, matchIds);
+    setName('');
+    toast({ title: "Search Saved", description: `We'll let you know when new properties match "${name.trim()}".` });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" aria-label={`Saved searches${totalNew ? `, ${totalNew} new matches` : ''}`}>
+          <Bell className="h-4 w-4 mr-1" />
+          Saved searches
+          {totalNew > 0 && <Badge className="ml-1 px-1.5">{totalNew}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <form onSubmit={handleSave} className="space-y-2">
+          <div className="text-sm font-medium">Save current search</div>
+          <div className="flex space-x-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Motor City offices"
+              className="h-9"
+              aria-label="Search name"
+            />
+            <Button type="submit" size="sm" disabled={!name.trim() || !canSave} aria-label="Save search">
+              <BookmarkPlus className="h-4 w-4" />
+            </Button>
+          </div>
+        </form>
+
+        <Separator className="my-3" />
+
+        {savedSearches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved searches yet.</p>
+        ) : (
+          <ul className="space-y-1 max-h-72 overflow-y-auto">
+            {savedSearches.map(search => (
+              <li key={search.id} className="flex items-center rounded-md hover:bg-muted">
+                <Link
+                  to={`/?${search.query}`}
+                  onClick={() => {
+                    markSeen(search.id);
+                    setOpen(false);
+                  }}
+                  className="flex flex-1 items-center justify-between px-2 py-1.5 text-sm min-w-0"
+                >
+                  <span className="truncate">{search.name}</span>
+                  {search.newIds.length > 0 && (
+                    <Badge className="ml-2 px-1.5">{search.newIds.length} new</Badge>
+                  )}
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => deleteSearch(search.id)}
+                  aria-label={`Delete saved search ${search.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SavedSearchesMenu;
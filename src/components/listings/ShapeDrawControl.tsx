@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Circle, CircleMarker, Polygon, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import { Pentagon, Radius, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDistance } from '@/lib/format';
+import { DEFAULT_RADIUS, RADIUS_OPTIONS, getDistance, type SearchShape } from '@/lib/geo';
+import type { Coordinates } from '@/types/property';
+
+type DrawMode = 'polygon' | 'radius';
+
+const toCoordinates = (latlng: L.LatLng): Coordinates => ({ latitude: latlng.lat, longitude: latlng.lng });
+const toLatLng = (point: Coordinates): L.LatLngTuple => [point.latitude, point.longitude];
+
+// Draw-to-search on the listings map: click out a polygon, or drop a walking-distance
+// radius. Must be rendered inside a MapContainer.
+const ShapeDrawControl = ({
+  shape,
+  color,
+  onShapeChange,
+  onDrawingChange,
+}: {
+  shape: SearchShape | null;
+  color: string;
+  onShapeChange: (shape: SearchShape | null) => void;
+  onDrawingChange?: (drawing: boolean) => void;
+}) => {
+  const map = useMap();
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<DrawMode | null>(null);
+  const [points, setPoints] = useState<Coordinates[]>([]);
+  const [cursor, setCursor] = useState<Coordinates | null>(null);
+  const shapeRadius = shape?.kind === 'radius' ? shape.radius : undefined;
+  const [radius, setRadius] = useState(shapeRadius ?? DEFAULT_RADIUS);
+
+  // Follow a radius that changed in the URL (back/forward, saved search)
+  useEffect(() => {
+    if (shapeRadius) setRadius(shapeRadius);
+  }, [shapeRadius]);
+
+  // Toolbar clicks and scrolls shouldn't reach the map underneath
+  useEffect(() => {
+    if (!toolbarRef.current) return;
+    L.DomEvent.disableClickPropagation(toolbarRef.current);
+    L.DomEvent.disableScrollPropagation(toolbarRef.current);
+  }, []);
+
+  // Double-click finishes a polygon, so it mustn't zoom while drawing
+  useEffect(() => {
+    if (mode) map.doubleClickZoom.disable();
+    else map.doubleClickZoom.enable();
+    map.getContainer().style.cursor = mode ? 'crosshair' : '';
+    onDrawingChange?.(mode !== null);
+  }, [map, mode, onDrawingChange]);
+
+  const stopDrawing = () => {
+    setMode(null);
+    setPoints([]);
+    setCursor(null);
+  };
+
+  const finishPolygon = () => {
+    // A double-click also lands two clicks on the same spot
+    const corners = points.filter((point, i) => i === 0 || getDistance(point, points[i - 1]) > 1);
+    if (corners.length >= 3) onShapeChange({ kind: 'polygon', points: corners });
+    stopDrawing();
+  };
+
+  useMapEvents({
+    click: (event) => {
+      const point = toCoordinates(event.latlng);
+      if (mode === 'polygon') {
+        setPoints(prev => [...prev, point]);
+      } else if (mode === 'radius') {
+        onShapeChange({ kind: 'radius', center: point, radius });
+        stopDrawing();
+      }
+    },
+    dblclick: () => {
+      if (mode === 'polygon') finishPolygon();
+    },
+    mousemove: (event) => {
+      if (mode) setCursor(toCoordinates(event.latlng));
+    },
+    keydown: (event) => {
+      if (event.originalEvent.key === 'Escape') stopDrawing();
+    },
+  });
+
+  const toggleMode = (next: DrawMode) => {
+    if (mode === next) {
+      stopDrawing();
+    } else {
+      setMode(next);
+      setPoints([]);
+    }
+  };
+
+  const changeRadius = (value: number) => {
+    setRadius(value);
+    if (shape?.kind === 'radius') onShapeChange({ ...shape, radius: value });
+  };
+
+  const showRadius = mode === 'radius' || (!mode && shapeRadius !== undefined);
+  const shapeStyle = { color, weight: 2, fillOpacity: 0.1 };
+  const draftStyle = { ...shapeStyle, dashArray: '6' };
+
+  return (
+    <>
+      {!mode && shape?.kind === 'polygon' && (
+        <Polygon positions={shape.points.map(toLatLng)} pathOptions={shapeStyle} interactive={false} />
+      )}
+      {!mode && shape?.kind === 'radius' && (
+        <Circle center={toLatLng(shape.center)} radius={shape.radius} pathOptions={shapeStyle} interactive={false} />
+      )}
+
+      {mode === 'polygon' && points.length > 0 && (
+        <>
+          <Polyline
+            positions={[...points, ...(cursor ? [cursor] : [])].map(toLatLng)}
+            pathOptions={draftStyle}
+            interactive={false}
+          />
+          {points.map((point, i) => (
+            <CircleMarker
+              key={i}
+              center={toLatLng(point)}
+              radius={4}
+              pathOptions={{ color, fillColor: '#fff', fillOpacity: 1, weight: 2 }}
+              interactive={false}
+            />
+          ))}
+        </>
+      )}
+      {mode === 'radius' && cursor && (
+        <Circle center={toLatLng(cursor)} radius={radius} pathOptions={draftStyle} interactive={false} />
+      )}
+
+      <div ref={toolbarRef} className="absolute top-3 right-3 z-[1000] w-64 space-y-2 rounded-md border bg-white p-2 shadow-lg">
+        <div className="flex items-center space-x-1">
+          <Button
+            variant={mode === 'polygon' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1"
+            onClick={() => toggleMode('polygon')}
+          >
+            <Pentagon className="h-4 w-4 mr-1" />
+            Draw area
+          </Button>
+          <Button
+            variant={mode === 'radius' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1"
+            onClick={() => toggleMode('radius')}
+          >
+            <Radius className="h-4 w-4 mr-1" />
+            Radius
+          </Button>
+          {shape && !mode && (
+            <Button variant="ghost" size="sm" className="px-2" onClick={() => onShapeChange(null)} aria-label="Clear search area">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {showRadius && (
+          <Select value={String(radius)} onValueChange={(value) => changeRadius(Number(value))}>
+            <SelectTrigger className="h-8 text-xs" aria-label="Search radius">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* Keep a radius from a shared link selectable even if it isn't a preset */}
+              {[...new Set([...RADIUS_OPTIONS, radius])].sort((a, b) => a - b).map(option => (
+                <SelectItem key={option} value={String(option)}>Within {formatDistance(option)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {mode === 'polygon' && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Click to add corners, double-click to finish</span>
+            <Button size="sm" className="h-7 px-2" disabled={points.length < 3} onClick={finishPolygon}>
+              Done
+            </Button>
+          </div>
+        )}
+        {mode === 'radius' && (
+          <div className="text-xs text-muted-foreground">Click the map to drop the centre</div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ShapeDrawControl;
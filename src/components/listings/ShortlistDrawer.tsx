@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Heart, Link2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import ShortlistItem from '@/components/listings/ShortlistItem';
+import { useFavourites } from '@/hooks/use-favourites';
+import { usePropertiesById } from '@/hooks/use-listings';
+import { useToast } from '@/hooks/use-toast';
+import { getShortlistPath, getShortlistUrl } from '@/lib/links';
+
+// Rendered only while the drawer is open, so the feeds load on demand
+const ShortlistContents = ({ onNavigate }: { onNavigate: () => void }) => {
+  const { favouriteIds, removeFavourite, clearFavourites } = useFavourites();
+  const { entries } = usePropertiesById(favouriteIds);
+  const { toast } = useToast();
+  const missingIds = entries.filter(entry => entry.isMissing).map(entry => entry.id);
+
+  const copyShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShortlistUrl(favouriteIds));
+      toast({ title: "Link Copied", description: "Anyone with the link can open this shortlist." });
+    } catch (error) {
+      console.error('Error copying shortlist link:', error);
+      toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
+    }
+  };
+
+  if (favouriteIds.length === 0) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center text-center text-muted-foreground">
+        <Heart className="h-8 w-8 mb-3" />
+        <p>Tap the heart on any property to add it here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ScrollArea className="flex-1 -mx-2 px-2">
+        <div className="space-y-2 py-2">
+          {entries.map(entry => (
+            <ShortlistItem key={entry.id} entry={entry} onOpen={onNavigate} onRemove={() => removeFavourite(entry.id)} />
+          ))}
+        </div>
+      </ScrollArea>
+
+      {missingIds.length > 0 && (
+        <Button variant="link" size="sm" className="self-start px-0" onClick={() => missingIds.forEach(removeFavourite)}>
+          Remove {missingIds.length} no longer listed
+        </Button>
+      )}
+
+      <SheetFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">
+        <Button onClick={copyShareLink} className="bg-gradient-purple">
+          <Link2 className="h-4 w-4 mr-1" />
+          Copy share link
+        </Button>
+        <Button variant="outline" asChild>
+          <Link to={getShortlistPath(favouriteIds)} onClick={onNavigate}>Open as page</Link>
+        </Button>
+        <Button variant="ghost" onClick={clearFavourites}>
+          <Trash2 className="h-4 w-4 mr-1" />
+          Clear shortlist
+        </Button>
+      </SheetFooter>
+    </>
+  );
+};
+
+const ShortlistDrawer = ({ className }: { className?: string }) => {
+  const [open, setOpen] = useState(false);
+  const { favouriteIds } = useFavourites();
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="secondary" size="sm" className={className} aria-label="Open shortlist">
+          <Heart className="h-4 w-4 mr-1" />
+          Shortlist
+          {favouriteIds.length > 0 && (
+            <span className="ml-1 rounded-full bg-primary px-2 text-xs text-primary-foreground">{favouriteIds.length}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex w-full flex-col sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Your shortlist</SheetTitle>
+          <SheetDescription>Saved on this device. Share the link to send the same set to a colleague or client.</SheetDescription>
+        </SheetHeader>
+        <ShortlistContents onNavigate={() => setOpen(false)} />
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ShortlistDrawer;
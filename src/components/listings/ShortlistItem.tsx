@@ -0,0 +1,81 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { PropertyLookup } from '@/hooks/use-listings';
+import { formatPrice, formatPropertyArea } from '@/lib/format';
+import { getPropertyPath } from '@/lib/links';
+
+// Fallback image used when a listing image fails to load
+import heroProperty1 from '@/assets/react.svg';
+
+// Compact shortlist row - flags entries whose listing has left the feed
+const ShortlistItem = ({
+  entry,
+  onRemove,
+  onOpen,
+}: {
+  entry: PropertyLookup;
+  onRemove?: () => void;
+  onOpen?: () => void;
+}) => {
+  const { property } = entry;
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border-2 bg-white p-2">
+      {property ? (
+        <img
+          src={property.images[0]}
+          alt={property.title}
+          loading="lazy"
+          className="h-16 w-20 flex-shrink-0 rounded object-cover"
+          onError={(e) => {
+            (e.target as HTMLImageElement).src = heroProperty1;
+          }}
+        />
+      ) : entry.isMissing ? (
+        <div className="flex h-16 w-20 flex-shrink-0 items-center justify-center rounded bg-muted">
+          <AlertTriangle className="h-5 w-5 text-muted-foreground" />
+        </div>
+      ) : (
+        <Skeleton className="h-16 w-20 flex-shrink-0 rounded" />
+      )}
+
+      <div className="min-w-0 flex-1">
+        {property ? (
+          <>
+            <Link to={getPropertyPath(property.id)} onClick={onOpen} className="block truncate font-medium hover:text-primary">
+              {property.title}
+            </Link>
+            <div className="text-sm font-semibold text-primary">
+              {formatPrice(property.price)}
+              {property.type === 'rent' && <span className="text-xs font-normal text-muted-foreground">/year</span>}
+            </div>
+            <div className="truncate text-xs text-muted-foreground">
+              {property.community} · {formatPropertyArea(property)}
+            </div>
+          </>
+        ) : entry.isMissing ? (
+          <>
+            <Badge variant="destructive" className="mb-1">No longer listed</Badge>
+            <div className="truncate text-xs text-muted-foreground">{entry.id}</div>
+          </>
+        ) : (
+          <>
+            <Skeleton className="mb-2 h-4 w-3/4" />
+            <Skeleton className="h-4 w-1/3" />
+          </>
+        )}
+      </div>
+
+      {onRemove && (
+        <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Remove from shortlist">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ShortlistItem;
@@ -0,0 +1,23 @@
+import { Link } from 'react-router-dom';
+import ShortlistDrawer from '@/components/listings/ShortlistDrawer';
+import ChestertonsLogo from '@/assets/Chestertons-Logo.png';
+
+const SiteHeader = () => (
+  <header className="bg-gradient-purple shadow-purple">
+    <div className="container mx-auto px-4 py-2 relative">
+      <div className="text-center">
+        <Link to="/">
+          <img
+            src={ChestertonsLogo}
+            alt="Chestertons Logo"
+            className="mx-auto"
+            style={{ maxWidth: '160px' }}
+          />
+        </Link>
+      </div>
+      <ShortlistDrawer className="absolute right-4 top-1/2 -translate-y-1/2" />
+    </div>
+  </header>
+);
+
+export default SiteHeader;
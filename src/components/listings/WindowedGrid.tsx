@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+
+// Rows kept mounted above and below the viewport
+const OVERSCAN_ROWS = 2;
+// Matches the grid's gap-6
+const ROW_GAP = 24;
+
+// Column count for `grid-cols-1 md:grid-cols-2 lg:grid-cols-3`
+const getColumnCount = () => {
+  if (window.matchMedia('(min-width: 1024px)').matches) return 3;
+  if (window.matchMedia('(min-width: 768px)').matches) return 2;
+  return 1;
+};
+
+// Infinite-scroll grid: reveals `batchSize` more items as the end comes into view and
+// only mounts the rows near the viewport, with spacers standing in for the rest
+const WindowedGrid = <T,>({
+  items,
+  getKey,
+  renderItem,
+  batchSize,
+  resetKey,
+  estimatedRowHeight = 560,
+}: {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  batchSize: number;
+  // Changes when the search does (filters, sort) - new data for the same search keeps the scroll depth
+  resetKey: string;
+  estimatedRowHeight?: number;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(getColumnCount);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const [revealedCount, setRevealedCount] = useState(batchSize);
+  const [visibleRows, setVisibleRows] = useState({ start: 0, end: 1 });
+
+  // A new search starts from the top batch again
+  useEffect(() => {
+    setRevealedCount(batchSize);
+  }, [resetKey, batchSize]);
+
+  const revealed = items.slice(0, revealedCount);
+  const rowCount = Math.ceil(revealed.length / columns);
+  const rowStride = rowHeight + ROW_GAP;
+
+  const updateWindow = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = -container.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(top / rowStride) - OVERSCAN_ROWS);
+    const end = Math.min(rowCount, Math.ceil((top + window.innerHeight) / rowStride) + OVERSCAN_ROWS);
+    setVisibleRows(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+
+    // Close to the last revealed row - reveal the next batch
+    if (end >= rowCount && revealedCount < items.length) {
+      setRevealedCount(count => Math.min(items.length, count + batchSize));
+    }
+  }, [rowStride, rowCount, revealedCount, items.length, batchSize]);
+
+  useLayoutEffect(() => {
+    updateWindow();
+  }, [updateWindow]);
+
+  useEffect(() => {
+    const onResize = () => {
+      setColumns(getColumnCount());
+      updateWindow();
+    };
+    window.addEventListener('scroll', updateWindow, { passive: true });
+    window.addEventListener('resize', onResize);
+    return () => {
+      window.removeEventListener('scroll', updateWindow);
+      window.removeEventListener('resize', onResize);
+    };
+  }, [updateWindow]);
+
+  // Measure real row height from the mounted rows so the spacers stay accurate
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    const observer = new ResizeObserver(() => {
+      const mountedRows = Math.ceil(grid.childElementCount / columns);
+      if (mountedRows === 0) return;
+      const measured = (grid.getBoundingClientRect().height - ROW_GAP * (mountedRows - 1)) / mountedRows;
+      if (measured > 0) setRowHeight(prev => (Math.abs(prev - measured) < 1 ? prev : measured));
+    });
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [columns]);
+
+  const mounted = revealed.slice(visibleRows.start * columns, visibleRows.end * columns);
+
+  return (
+    <div ref={containerRef}>
+      <div
+        style={{
+          paddingTop: visibleRows.start * rowStride,
+          paddingBottom: Math.max(0, rowCount - visibleRows.end) * rowStride,
+        }}
+      >
+        <div ref={gridRef} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {mounted.map(item => (
+            <div key={getKey(item)}>{renderItem(item)}</div>
+          ))}
+        </div>
+      </div>
+
+      {revealedCount < items.length && (
+        <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading more properties...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WindowedGrid;
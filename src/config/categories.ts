@@ -0,0 +1,86 @@
+// Commercial category taxonomy - canonical categories and the raw Goyzer
+// category names that map onto them. Raw names are matched exactly
+// (case-insensitive, whitespace-collapsed); anything not listed here or in
+// RESIDENTIAL_CATEGORIES is reported as unmapped in development.
+
+export type CategoryId =
+  | 'office'
+  | 'retail'
+  | 'warehouse'
+  | 'showroom'
+  | 'clinic'
+  | 'fnb'
+  | 'industrial'
+  | 'land'
+  | 'whole-building'
+  | 'labour-camp';
+
+export interface CategoryConfig {
+  id: CategoryId;
+  /** Display label */
+  label: string;
+  /** Raw Goyzer categories that belong to this category */
+  rawCategories: string[];
+}
+
+export const CATEGORY_TAXONOMY: CategoryConfig[] = [
+  {
+    id: 'office',
+    label: 'Office',
+    rawCategories: [
+      'Office', 'Offices', 'Office Space', 'Commercial Office', 'Fitted Office', 'Serviced Office',
+      'Executive Office', 'Business Centre', 'Business Center', 'Co-working Space', 'Full Floor',
+    ],
+  },
+  {
+    id: 'retail',
+    label: 'Retail',
+    rawCategories: ['Retail', 'Shop', 'Retail Shop', 'Commercial Shop', 'Kiosk', 'Mall', 'Shopping Mall'],
+  },
+  {
+    id: 'warehouse',
+    label: 'Warehouse',
+    rawCategories: ['Warehouse', 'Storage', 'Logistics', 'Cold Storage'],
+  },
+  {
+    id: 'showroom',
+    label: 'Showroom',
+    rawCategories: ['Showroom'],
+  },
+  {
+    id: 'clinic',
+    label: 'Medical/Clinic',
+    rawCategories: ['Clinic', 'Medical', 'Medical Centre', 'Medical Center', 'Healthcare'],
+  },
+  {
+    id: 'fnb',
+    label: 'F&B',
+    rawCategories: ['Restaurant', 'Cafe', 'Café', 'F&B', 'Food & Beverage', 'Restaurant/Cafe'],
+  },
+  {
+    id: 'industrial',
+    label: 'Industrial',
+    rawCategories: ['Industrial', 'Industrial Unit', 'Factory', 'Workshop', 'Laboratory'],
+  },
+  {
+    id: 'land',
+    label: 'Land',
+    rawCategories: ['Land', 'Plot', 'Commercial Land', 'Commercial Plot', 'Industrial Land', 'Mixed Use Land'],
+  },
+  {
+    id: 'whole-building',
+    label: 'Whole Building',
+    rawCategories: ['Whole Building', 'Full Building', 'Commercial Building', 'Bulk Units'],
+  },
+  {
+    id: 'labour-camp',
+    label: 'Labour Camp',
+    rawCategories: ['Labour Camp', 'Labor Camp', 'Staff Accommodation'],
+  },
+];
+
+// Known residential categories - skipped silently rather than reported as unmapped
+export const RESIDENTIAL_CATEGORIES = [
+  'Apartment', 'Villa', 'Townhouse', 'Penthouse', 'Studio', 'Duplex', 'Loft', 'Bungalow',
+  'Hotel Apartment', 'Residential Building', 'Residential Land', 'Residential Plot',
+];
@@ -0,0 +1,51 @@
+// Community registry - the communities shown as tabs, in display order.
+//
+// To add a community, append an entry: `aliases` and `subCommunities` are
+// matched case-insensitively against the Goyzer Community / SubCommunity
+// fields, so any listing whose community contains one of them is grouped
+// under `name`. `centroid` places listings on the map when the feed has no
+// coordinates; boundaries live in community-boundaries.json keyed by slug.
+
+import type { Coordinates } from '@/types/property';
+
+export interface CommunityConfig {
+  /** URL-safe identifier, e.g. for query params */
+  slug: string;
+  /** Display name - also the value stored on Property.community */
+  name: string;
+  /** Alternative spellings or neighbouring areas grouped under this community */
+  aliases: string[];
+  /** Sub-communities / developments that belong to this community */
+  subCommunities: string[];
+  /** Tab order, ascending */
+  sortOrder: number;
+  /** Map position for listings without coordinates */
+  centroid: Coordinates;
+}
+
+export const COMMUNITY_REGISTRY: CommunityConfig[] = [
+  {
+    slug: 'business-bay',
+    name: 'Business Bay',
+    aliases: [],
+    subCommunities: ['Bay Square'],
+    sortOrder: 1,
+    centroid: { latitude: 25.1857, longitude: 55.2735 },
+  },
+  {
+    slug: 'motor-city',
+    name: 'Motor City',
+    aliases: ['Dubai Investment Park (DIP)', 'Dubai Investment Park'],
+    subCommunities: [],
+    sortOrder: 2,
+    centroid: { latitude: 25.0455, longitude: 55.2390 },
+  },
+  {
+    slug: 'barsha-heights',
+    name: 'Barsha Heights',
+    aliases: ['Al Barsha Heights'],
+    subCommunities: [],
+    sortOrder: 3,
+    centroid: { latitude: 25.0972, longitude: 55.1772 },
+  },
+];
@@ -0,0 +1,61 @@
+import type { ListingType, Property } from '@/types/property';
+import type { GoyzerRecord } from './mappings';
+
+// 32-bit FNV-1a hash, rendered in base 36 - stable across reloads and browsers
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Build a stable property ID from the Goyzer unit reference, falling back to a
+// content hash when the feed omits it. Sale and rent feeds can list the same
+// unit, so the listing type is always part of the ID. The hash only covers
+// attributes of the unit itself - a price change must not turn it into a new listing.
+export const buildPropertyId = (type: ListingType, record: GoyzerRecord, images: string[]): string => {
+  const reference = slugify(record.reference);
+  if (reference) {
+    return `${type}-${reference}`;
+  }
+
+  const fingerprint = [
+    record.title,
+    record.category,
+    record.community,
+    record.area,
+    images[0] ?? '',
+  ].join('|');
+
+  return `${type}-h${hashString(fingerprint)}`;
+};
+
+export interface IdRegistry {
+  assign: (property: Property) => Property;
+  /** IDs that appeared more than once so far */
+  duplicates: () => string[];
+}
+
+// Keeps IDs unique within a feed so React keys and lookups stay consistent.
+// Duplicates usually mean the same unit is listed twice in Goyzer.
+export const createIdRegistry = (): IdRegistry => {
+  const seen = new Map<string, number>();
+  const duplicates = new Set<string>();
+
+  return {
+    assign: property => {
+      const count = seen.get(property.id) ?? 0;
+      seen.set(property.id, count + 1);
+      if (count === 0) return property;
+
+      duplicates.add(property.id);
+      return { ...property, id: `${property.id}-${count + 1}` };
+    },
+    duplicates: () => Array.from(duplicates),
+  };
+};
@@ -0,0 +1,36 @@
+export {
+  parseGoyzerListings,
+  createListingParser,
+  parseListingNode,
+  extractRecord,
+  extractImages,
+  type ListingParser,
+  type ListingResult,
+  type ExtractedRecord,
+} from './parser';
+export { buildPropertyId, createIdRegistry, type IdRegistry } from './identity';
+export { propertySchema, describeIssues } from './validation';
+export {
+  countByReason,
+  logFeedReport,
+  type FeedReport,
+  type RejectedListing,
+  type DefaultedListing,
+  type RejectionReason,
+} from './report';
+export { createListingStream, type XmlNode } from './xml';
+export {
+  GOYZER_FIELD_MAPPINGS,
+  LISTING_TAGS,
+  parseText,
+  parseNumber,
+  parseInteger,
+  parseDecimal,
+  parseDate,
+  parseCoordinates,
+  toCoordinates,
+  parseFitOutStatus,
+  type FieldMapping,
+  type GoyzerRecord,
+  type GoyzerFieldMappings,
+} from './mappings';
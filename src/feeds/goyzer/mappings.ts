@@ -0,0 +1,210 @@
+import type { Coordinates } from '@/types/property';
+
+// Declarative Goyzer field mappings - target field -> candidate XML tags -> parser.
+// To support a new tag alias, add it to the relevant `tags` list.
+
+export interface FieldMapping<T> {
+  /** Candidate XML tags, tried in order - the first non-empty one wins */
+  tags: string[];
+  /** Converts the raw text content into the target value */
+  parse: (raw: string) => T;
+  /** Value used when none of the tags are present or parsing fails */
+  fallback: T;
+}
+
+// Raw values read from a single listing element, before any filtering
+export interface GoyzerRecord {
+  reference: string;
+  title: string;
+  category: string;
+  community: string;
+  subCommunity: string;
+  salePrice: number;
+  rentPrice: number;
+  area: number;
+  bedrooms: number;
+  agentName: string;
+  buildingName: string;
+  floor: string;
+  parkingSpaces: number;
+  fitOutStatus: string;
+  serviceCharge: number;
+  view: string;
+  permitNumber: string;
+  description: string;
+  listingDate: string;
+  coordinates: Coordinates | null;
+  latitude: number;
+  longitude: number;
+}
+
+export type GoyzerFieldMappings = { [K in keyof GoyzerRecord]: FieldMapping<GoyzerRecord[K]> };
+
+// Field parsers
+export const parseText = (raw: string): string => raw.trim();
+
+export const parseNumber = (raw: string): number => parseFloat(raw.replace(/[^\d.]/g, '')) || 0;
+
+export const parseInteger = (raw: string): number => parseInt(raw) || 0;
+
+// Signed decimal, e.g. a latitude or longitude
+export const parseDecimal = (raw: string): number => parseFloat(raw) || 0;
+
+// Any date string the browser understands -> ISO 8601, or '' when unparseable
+export const parseDate = (raw: string): string => {
+  const time = Date.parse(raw);
+  return Number.isNaN(time) ? '' : new Date(time).toISOString();
+};
+
+// Range-checked coordinates - Goyzer uses 0,0 for "not set"
+export const toCoordinates = (latitude: number, longitude: number): Coordinates | null => {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || (latitude === 0 && longitude === 0)) {
+    return null;
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { latitude, longitude };
+};
+
+// "25.1851,55.2639" (Goyzer's Google coordinates format)
+export const parseCoordinates = (raw: string): Coordinates | null => {
+  const [latitude, longitude] = raw.split(',').map(part => parseFloat(part));
+  return toCoordinates(latitude, longitude);
+};
+
+// Normalize the many ways fit-out is written in Goyzer
+export const parseFitOutStatus = (raw: string): string => {
+  const value = raw.trim().toLowerCase();
+  if (value.includes('shell')) return 'Shell & Core';
+  if (value.includes('semi')) return 'Semi Fitted';
+  if (value.includes('fitted') || value.includes('furnished') || value === 'yes') return 'Fitted';
+  if (value === 'no') return 'Unfitted';
+  return raw.trim();
+};
+
+// Elements that represent a single listing in the supported document shapes
+export const LISTING_TAGS = ['UnitDTO', 'Property', 'property', 'PropertyInfo'];
+
+// Image URLs live at <Images><Image><ImageURL> inside a listing
+export const IMAGES_CONTAINER_TAG = 'Images';
+export const IMAGE_TAG = 'Image';
+export const IMAGE_URL_TAG = 'ImageURL';
+
+export const GOYZER_FIELD_MAPPINGS: GoyzerFieldMappings = {
+  reference: {
+    tags: ['RefNo', 'ReferenceNo', 'ReferenceNumber', 'UnitID', 'PropertyID', 'UnitReference'],
+    parse: parseText,
+    fallback: '',
+  },
+  title: {
+    tags: ['PropertyName', 'PropertyTitle', 'Title', 'Name'],
+    parse: parseText,
+    fallback: '',
+  },
+  category: {
+    tags: ['Category', 'PropertyCategory', 'PropertyType', 'UnitCategory', 'Type'],
+    parse: parseText,
+    fallback: '',
+  },
+  community: {
+    tags: ['Community', 'CommunityName', 'Location', 'Area'],
+    parse: parseText,
+    fallback: '',
+  },
+  subCommunity: {
+    tags: ['SubCommunity', 'SubCommunityName', 'Development'],
+    parse: parseText,
+    fallback: '',
+  },
+  salePrice: {
+    tags: ['SellPrice', 'Price', 'PropertyPrice', 'SalePrice'],
+    parse: parseNumber,
+    fallback: 0,
+  },
+  rentPrice: {
+    tags: ['Rent', 'RentPrice', 'Price', 'PropertyPrice'],
+    parse: parseNumber,
+    fallback: 0,
+  },
+  area: {
+    tags: ['BuiltupArea', 'FloorArea', 'Area', 'PropertyArea', 'TotalArea'],
+    parse: parseNumber,
+    // Placeholder so the listing still validates - flagged as isAreaEstimated on the property
+    fallback: 800,
+  },
+  bedrooms: {
+    tags: ['Bedrooms', 'BedroomCount', 'NumberOfBedrooms'],
+    parse: parseInteger,
+    fallback: 0,
+  },
+  agentName: {
+    tags: [
+      'AgentName', 'Agent', 'ListedBy', 'ContactPerson',
+      'SalesAgent', 'ListingAgent', 'PropertyAgent', 'AgentFirstName',
+      'ContactName', 'ResponsibleAgent', 'AgentFullName'
+    ],
+    parse: parseText,
+    fallback: 'Chestertons Agent',
+  },
+  buildingName: {
+    tags: ['BuildingName', 'Building', 'Tower'],
+    parse: parseText,
+    fallback: '',
+  },
+  floor: {
+    tags: ['FloorNo', 'Floor', 'FloorNumber', 'UnitFloor'],
+    parse: parseText,
+    fallback: '',
+  },
+  parkingSpaces: {
+    tags: ['NoOfParking', 'Parking', 'ParkingSpaces', 'ParkingSpace', 'Parkings'],
+    parse: parseInteger,
+    fallback: 0,
+  },
+  fitOutStatus: {
+    tags: ['FitOut', 'FitOutStatus', 'FittingFixtures', 'Fitted', 'Furnished'],
+    parse: parseFitOutStatus,
+    fallback: '',
+  },
+  serviceCharge: {
+    tags: ['ServiceCharge', 'ServiceCharges', 'ServiceChargePerSqft'],
+    parse: parseNumber,
+    fallback: 0,
+  },
+  view: {
+    tags: ['PrimaryUnitView', 'PrimaryView', 'View', 'Views'],
+    parse: parseText,
+    fallback: '',
+  },
+  permitNumber: {
+    tags: ['PermitNumber', 'RERAPermitNumber', 'TrakheesiPermit', 'DLDPermitNumber'],
+    parse: parseText,
+    fallback: '',
+  },
+  description: {
+    tags: ['Web_Remarks', 'Remarks', 'Description', 'PropertyDescription'],
+    parse: parseText,
+    fallback: '',
+  },
+  listingDate: {
+    tags: ['ListingDate', 'DateListed', 'ListedDate'],
+    parse: parseDate,
+    fallback: '',
+  },
+  coordinates: {
+    tags: ['ProGooglecoordinates', 'GoogleCoordinates', 'Coordinates'],
+    parse: parseCoordinates,
+    fallback: null,
+  },
+  latitude: {
+    tags: ['Latitude', 'Lat'],
+    parse: parseDecimal,
+    fallback: 0,
+  },
+  longitude: {
+    tags: ['Longitude', 'Lng', 'Long'],
+    parse: parseDecimal,
+    fallback: 0,
+  },
+};
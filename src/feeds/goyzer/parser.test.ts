@@ -0,0 +1,175 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import type { ListingType, Property } from '@/types/property';
+import { createListingParser, parseGoyzerListings, type FeedReport } from '@/feeds/goyzer';
+
+// Keep the dev-only feed report out of the test output
+vi.stubEnv('DEV', false);
+
+const readFixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+const getIds = (properties: Property[]) => properties.map(property => property.id);
+
+const parseFixture = (name: string, type: ListingType) => {
+  const properties: Property[] = [];
+  const parser = createListingParser(type, batch => properties.push(...batch));
+  parser.write(readFixture(name));
+  const report: FeedReport = parser.close();
+  return { properties, report };
+};
+
+describe('UnitDTO documents', () => {
+  const { properties, report } = parseFixture('unit-dto.xml', 'sale');
+
+  it('maps the primary Goyzer tags', () => {
+    expect(properties).toHaveLength(1);
+    expect(properties[0]).toMatchObject({
+      id: 'sale-ch-s-1001',
+      title: 'Bay Square Office 12',
+      price: 2450000,
+      area: 1750,
+      community: 'Business Bay',
+      type: 'sale',
+      category: 'Office',
+      categoryId: 'office',
+      rawCategory: 'Office',
+      agentName: 'Sarah Khan',
+      buildingName: 'Bay Square Building 12',
+      floor: '7',
+      parkingSpaces: 2,
+      fitOutStatus: 'Fitted',
+      serviceCharge: 18.5,
+      view: 'Canal',
+      permitNumber: '7112345678',
+      description: 'Fitted office with canal views & two parking bays.',
+      listingDate: '2024-03-01T09:00:00.000Z',
+      coordinates: { latitude: 25.1862, longitude: 55.2781 },
+      images: ['https://images.example.com/1001-1.jpg', 'https://images.example.com/1001-2.jpg'],
+    });
+  });
+
+  it('reports residential and non-target listings as rejected', () => {
+    expect(report.total).toBe(3);
+    expect(report.accepted).toBe(1);
+    expect(report.rejected.map(({ reference, reason }) => ({ reference, reason }))).toEqual([
+      { reference: 'CH-S-1002', reason: 'residential-category' },
+      { reference: 'CH-S-1003', reason: 'non-target-community' },
+    ]);
+    expect(report.defaulted).toEqual([]);
+  });
+
+  it('leaves building name and listing date unset rather than borrowing other tags', () => {
+    const [property] = parseGoyzerListings(`
+      <UnitDTO>
+        <RefNo>CH-S-1004</RefNo>
+        <PropertyName>Executive Tower Office</PropertyName>
+        <Category>Office</Category>
+        <Community>Business Bay</Community>
+        <SellPrice>1200000</SellPrice>
+        <BuiltupArea>900</BuiltupArea>
+        <LastUpdated>2024-06-30T12:00:00Z</LastUpdated>
+      </UnitDTO>
+    `, 'sale');
+
+    expect(property.title).toBe('Executive Tower Office');
+    expect(property.buildingName).toBeUndefined();
+    expect(property.listingDate).toBeUndefined();
+  });
+});
+
+describe('Property documents', () => {
+  const { properties, report } = parseFixture('property.xml', 'rent');
+
+  it('resolves tag aliases and community aliases', () => {
+    expect(properties).toHaveLength(1);
+    expect(properties[0]).toMatchObject({
+      id: 'rent-ch-r-2001',
+      title: 'DIP Warehouse with Office',
+      price: 420000,
+      area: 12000,
+      community: 'Motor City',
+      category: 'Warehouse',
+      rawCategory: 'Storage',
+      agentName: 'Omar Haddad',
+      fitOutStatus: 'Shell & Core',
+      listingDate: new Date('15 Jan 2024').toISOString(),
+    });
+  });
+
+  it('falls back to separate latitude / longitude tags', () => {
+    expect(properties[0].coordinates).toEqual({ latitude: 25.0012, longitude: 55.162 });
+  });
+
+  it('rejects listings without a price for the feed type', () => {
+    expect(report.rejected).toMatchObject([{ reference: 'CH-R-2002', reason: 'missing-price' }]);
+  });
+});
+
+describe('PropertyInfo documents', () => {
+  const { properties, report } = parseFixture('property-info.xml', 'sale');
+
+  it('derives a hashed ID when the feed has no reference', () => {
+    expect(getIds(properties)).toEqual([
+      expect.stringMatching(/^sale-h[0-9a-z]+$/),
+      expect.stringMatching(/^sale-h[0-9a-z]+$/),
+    ]);
+    expect(new Set(getIds(properties)).size).toBe(2);
+  });
+
+  it('fills missing fields from the mapping fallbacks', () => {
+    const [clinic, kiosk] = properties;
+    expect(clinic).toMatchObject({
+      title: 'Barsha Heights Clinic',
+      price: 950000,
+      area: 1100,
+      community: 'Barsha Heights',
+      category: 'Medical/Clinic',
+      agentName: 'Chestertons Agent',
+    });
+    expect(clinic.coordinates).toBeUndefined();
+    expect(clinic.isAreaEstimated).toBeUndefined();
+    expect(kiosk.category).toBe('Retail');
+    expect(kiosk.isAreaEstimated).toBe(true);
+    expect(kiosk.images.length).toBeGreaterThan(0);
+  });
+
+  it('lists the defaulted fields per listing', () => {
+    expect(report.defaulted.map(listing => listing.fields)).toEqual([
+      ['reference', 'agentName'],
+      ['reference', 'area', 'agentName', 'images'],
+    ]);
+  });
+
+  it('counts unmapped categories', () => {
+    expect(report.rejected).toMatchObject([{ title: 'Barsha Heights Data Centre', reason: 'unmapped-category' }]);
+    expect(report.unmappedCategories).toEqual({ 'Data Centre': 1 });
+  });
+});
+
+describe('streaming', () => {
+  it('gives the same listings and IDs however the document is chunked', () => {
+    const xml = readFixture('property-info.xml');
+    const whole = parseGoyzerListings(xml, 'sale');
+
+    const chunked: Property[] = [];
+    const parser = createListingParser('sale', batch => chunked.push(...batch), 1);
+    for (let i = 0; i < xml.length; i += 37) {
+      parser.write(xml.slice(i, i + 37));
+    }
+    parser.close();
+
+    expect(whole).toHaveLength(2);
+    expect(chunked).toEqual(whole);
+  });
+
+  it('derives the same hashed IDs on every parse', () => {
+    const xml = readFixture('property-info.xml');
+    expect(getIds(parseGoyzerListings(xml, 'sale'))).toEqual(getIds(parseGoyzerListings(xml, 'sale')));
+  });
+
+  it('keeps hashed IDs when a listing is repriced', () => {
+    const xml = readFixture('property-info.xml');
+    const repriced = xml.replace('<Price>950000</Price>', '<Price>900000</Price>');
+    expect(getIds(parseGoyzerListings(repriced, 'sale'))).toEqual(getIds(parseGoyzerListings(xml, 'sale')));
+  });
+});
@@ -0,0 +1,248 @@
+import type { ListingType, Property } from '@/types/property';
+import { isResidentialCategory, mapCategory } from '@/lib/categories';
+import { resolveCommunity } from '@/lib/communities';
+import { buildPropertyId, createIdRegistry } from './identity';
+import { describeIssues, propertySchema } from './validation';
+import { logFeedReport, type FeedReport, type RejectionReason } from './report';
+import { createListingStream, findAll, findFirst, textContent, type XmlNode } from './xml';
+import {
+  GOYZER_FIELD_MAPPINGS,
+  IMAGES_CONTAINER_TAG,
+  IMAGE_TAG,
+  IMAGE_URL_TAG,
+  LISTING_TAGS,
+  toCoordinates,
+  type FieldMapping,
+  type GoyzerRecord,
+} from './mappings';
+
+// Import fallback images
+import heroProperty1 from '@/assets/react.svg';
+import heroProperty2 from '@/assets/react.svg';
+import heroProperty3 from '@/assets/react.svg';
+
+const FALLBACK_IMAGES = [heroProperty1, heroProperty2, heroProperty3];
+const MAX_IMAGES = 5;
+
+// Defaults worth flagging to the listings team - the rest are expected to be absent
+const REPORTED_DEFAULTS: (keyof GoyzerRecord)[] = ['reference', 'title', 'area', 'agentName'];
+
+export interface ExtractedRecord {
+  record: GoyzerRecord;
+  /** Fields that fell back to their mapping default */
+  defaulted: (keyof GoyzerRecord)[];
+}
+
+// Resolve a single mapped field against a listing element
+const readField = <T>(node: XmlNode, mapping: FieldMapping<T>): { value: T; defaulted: boolean } => {
+  for (const tag of mapping.tags) {
+    const field = findFirst(node, tag);
+    const raw = field && textContent(field).trim();
+    if (raw) {
+      const value = mapping.parse(raw);
+      return value ? { value, defaulted: false } : { value: mapping.fallback, defaulted: true };
+    }
+  }
+  return { value: mapping.fallback, defaulted: true };
+};
+
+export const extractRecord = (node: XmlNode): ExtractedRecord => {
+  const record: Record<string, unknown> = {};
+  const defaulted: (keyof GoyzerRecord)[] = [];
+
+  Object.entries(GOYZER_FIELD_MAPPINGS).forEach(([field, mapping]) => {
+    const result = readField(node, mapping as FieldMapping<unknown>);
+    record[field] = result.value;
+    if (result.defaulted) defaulted.push(field as keyof GoyzerRecord);
+  });
+
+  return { record: record as unknown as GoyzerRecord, defaulted };
+};
+
+export const extractImages = (node: XmlNode): string[] => {
+  const imagesContainer = findFirst(node, IMAGES_CONTAINER_TAG);
+  if (!imagesContainer) return [];
+
+  return findAll(imagesContainer, IMAGE_TAG)
+    .flatMap(image => findAll(image, IMAGE_URL_TAG))
+    .map(url => textContent(url).trim())
+    .filter(Boolean);
+};
+
+export type ListingResult =
+  | { status: 'accepted'; property: Property; defaulted: string[]; record: GoyzerRecord }
+  | { status: 'rejected'; reason: RejectionReason; details: string[]; record: GoyzerRecord };
+
+const reject = (record: GoyzerRecord, reason: RejectionReason, ...details: string[]): ListingResult => ({
+  status: 'rejected',
+  reason,
+  details,
+  record,
+});
+
+// Convert one listing element into a validated Property, or explain why it was rejected
+export const parseListingNode = (node: XmlNode, type: ListingType, index: number): ListingResult => {
+  const { record, defaulted } = extractRecord(node);
+
+  // Only process categories in the commercial taxonomy
+  if (!record.category) {
+    return reject(record, 'missing-category');
+  }
+  const category = mapCategory(record.category);
+  if (!category) {
+    return isResidentialCategory(record.category)
+      ? reject(record, 'residential-category', record.category)
+      : reject(record, 'unmapped-category', record.category);
+  }
+
+  // Only keep communities in the registry
+  const community = resolveCommunity(record.community, record.subCommunity);
+  if (!community) {
+    return reject(record, 'non-target-community', record.community || '(empty)');
+  }
+
+  const price = type === 'sale' ? record.salePrice : record.rentPrice;
+  if (price <= 0) {
+    return reject(record, 'missing-price');
+  }
+
+  const images = extractImages(node);
+  const reportedDefaults: string[] = REPORTED_DEFAULTS.filter(field => defaulted.includes(field));
+  if (images.length === 0) reportedDefaults.push('images');
+
+  const candidate: Property = {
+    id: buildPropertyId(type, record, images),
+    title: record.title || `Property ${index + 1}`,
+    price,
+    area: record.area,
+    isAreaEstimated: defaulted.includes('area') || undefined,
+    bedrooms: record.bedrooms,
+    community: community.name,
+    images: images.length > 0 ? images.slice(0, MAX_IMAGES) : FALLBACK_IMAGES,
+    type,
+    propertyType: 'commercial',
+    category: category.label,
+    categoryId: category.id,
+    rawCategory: record.category,
+    agentName: record.agentName,
+    buildingName: record.buildingName || undefined,
+    floor: record.floor || undefined,
+    parkingSpaces: record.parkingSpaces || undefined,
+    fitOutStatus: record.fitOutStatus || undefined,
+    serviceCharge: record.serviceCharge || undefined,
+    view: record.view || undefined,
+    permitNumber: record.permitNumber || undefined,
+    description: record.description || undefined,
+    listingDate: record.listingDate || undefined,
+    coordinates: record.coordinates ?? toCoordinates(record.latitude, record.longitude) ?? undefined
+  };
+
+  const validation = propertySchema.safeParse(candidate);
+  if (!validation.success) {
+    return reject(record, 'invalid', ...describeIssues(validation.error));
+  }
+
+  return { status: 'accepted', property: candidate, defaulted: reportedDefaults, record };
+};
+
+export interface ListingParser {
+  /** Feed the next chunk of XML text */
+  write: (chunk: string) => void;
+  /** Signal the end of the document, flush any remaining listings and return the feed report */
+  close: () => FeedReport;
+}
+
+// Incremental feed parser - emits properties in batches as listing elements
+// complete, with no cap on the number of elements processed
+export const createListingParser = (
+  type: ListingType,
+  onBatch: (properties: Property[]) => void,
+  batchSize: number = 50
+): ListingParser => {
+  const ids = createIdRegistry();
+  const report: FeedReport = {
+    type,
+    total: 0,
+    accepted: 0,
+    rejected: [],
+    defaulted: [],
+    unmappedCategories: {},
+    duplicateIds: [],
+    generatedAt: 0,
+  };
+  let batch: Property[] = [];
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    onBatch(batch);
+    batch = [];
+  };
+
+  const stream = createListingStream(LISTING_TAGS, node => {
+    const index = report.total++;
+
+    try {
+      const result = parseListingNode(node, type, index);
+
+      if (result.status === 'rejected') {
+        const { record, reason, details } = result;
+        report.rejected.push({ index, reference: record.reference, title: record.title, reason, details });
+        if (reason === 'unmapped-category') {
+          report.unmappedCategories[record.category] = (report.unmappedCategories[record.category] ?? 0) + 1;
+        }
+        return;
+      }
+
+      const property = ids.assign(result.property);
+      report.accepted++;
+      if (result.defaulted.length > 0) {
+        report.defaulted.push({
+          id: property.id,
+          reference: result.record.reference,
+          title: property.title,
+          fields: result.defaulted,
+        });
+      }
+
+      batch.push(property);
+      if (batch.length >= batchSize) flush();
+    } catch (error) {
+      console.error('Error parsing property element:', error);
+      report.rejected.push({
+        index,
+        reference: '',
+        title: '',
+        reason: 'parse-error',
+        details: [error instanceof Error ? error.message : String(error)],
+      });
+    }
+  });
+
+  return {
+    write: stream.write,
+    close: () => {
+      stream.close();
+      flush();
+
+      report.duplicateIds = ids.duplicates();
+      report.generatedAt = Date.now();
+      if (import.meta.env.DEV) logFeedReport(report);
+      return report;
+    },
+  };
+};
+
+// Parse a complete XML document in one go
+export const parseGoyzerListings = (xmlString: string, type: ListingType): Property[] => {
+  const properties: Property[] = [];
+
+  try {
+    const parser = createListingParser(type, batch => properties.push(...batch));
+    parser.write(xmlString);
+    parser.close();
+  } catch (error) {
+    console.error('Error parsing XML:', error);
+  }
+
+  return properties;
+};
@@ -0,0 +1,67 @@
+import type { ListingType } from '@/types/property';
+
+// Per-feed parsing report - tells the listings team exactly which Goyzer
+// units were dropped or patched up, and why
+
+export type RejectionReason =
+  | 'missing-category'
+  | 'residential-category'
+  | 'unmapped-category'
+  | 'non-target-community'
+  | 'missing-price'
+  | 'invalid'
+  | 'parse-error';
+
+export interface RejectedListing {
+  /** Position of the listing element in the feed */
+  index: number;
+  reference: string;
+  title: string;
+  reason: RejectionReason;
+  details: string[];
+}
+
+export interface DefaultedListing {
+  id: string;
+  reference: string;
+  title: string;
+  /** Fields that were missing in the feed and filled with a default */
+  fields: string[];
+}
+
+export interface FeedReport {
+  type: ListingType;
+  total: number;
+  accepted: number;
+  rejected: RejectedListing[];
+  defaulted: DefaultedListing[];
+  unmappedCategories: Record<string, number>;
+  duplicateIds: string[];
+  generatedAt: number;
+}
+
+export const countByReason = (rejected: RejectedListing[]): Partial<Record<RejectionReason, number>> => {
+  const counts: Partial<Record<RejectionReason, number>> = {};
+  rejected.forEach(({ reason }) => {
+    counts[reason] = (counts[reason] ?? 0) + 1;
+  });
+  return counts;
+};
+
+export const logFeedReport = (report: FeedReport) => {
+  console.groupCollapsed(
+    `[feed] ${report.type}: ${report.accepted} accepted, ${report.rejected.length} rejected, ` +
+    `${report.defaulted.length} defaulted (of ${report.total})`
+  );
+  console.log('Rejections by reason:', countByReason(report.rejected));
+  if (Object.keys(report.unmappedCategories).length > 0) {
+    console.warn('Unmapped categories (add them to src/config/categories.ts):', report.unmappedCategories);
+  }
+  if (report.duplicateIds.length > 0) {
+    console.warn('Duplicate property IDs:', report.duplicateIds);
+  }
+  const invalid = report.rejected.filter(listing => listing.reason !== 'residential-category');
+  if (invalid.length > 0) console.table(invalid);
+  if (report.defaulted.length > 0) console.table(report.defaulted);
+  console.groupEnd();
+};
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { CATEGORY_TAXONOMY, type CategoryId } from '@/config/categories';
+import { COMMUNITY_NAMES } from '@/lib/communities';
+
+const CATEGORY_IDS = CATEGORY_TAXONOMY.map(category => category.id) as [CategoryId, ...CategoryId[]];
+
+// Final shape check for every parsed listing before it reaches the UI
+export const propertySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1, 'Missing title'),
+  price: z.number().positive('Price must be greater than 0'),
+  area: z.number().positive('Area must be greater than 0'),
+  isAreaEstimated: z.boolean().optional(),
+  bedrooms: z.number().int().nonnegative(),
+  community: z.string().refine(name => COMMUNITY_NAMES.includes(name), 'Community not in registry'),
+  images: z.array(z.string().min(1)).min(1, 'No images'),
+  type: z.enum(['sale', 'rent']),
+  propertyType: z.literal('commercial'),
+  category: z.string().min(1),
+  categoryId: z.enum(CATEGORY_IDS),
+  rawCategory: z.string().min(1),
+  agentName: z.string().min(1),
+  buildingName: z.string().optional(),
+  floor: z.string().optional(),
+  parkingSpaces: z.number().int().nonnegative().optional(),
+  fitOutStatus: z.string().optional(),
+  serviceCharge: z.number().nonnegative().optional(),
+  view: z.string().optional(),
+  permitNumber: z.string().optional(),
+  description: z.string().optional(),
+  listingDate: z.string().datetime().optional(),
+  coordinates: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }).optional(),
+});
+
+// Turn zod issues into short "field: message" reasons for the feed report
+export const describeIssues = (error: z.ZodError): string[] => {
+  return error.issues.map(issue => `${issue.path.join('.') || 'listing'}: ${issue.message}`);
+};
@@ -0,0 +1,84 @@
+import { SaxesParser } from 'saxes';
+
+// Minimal element tree for a single listing - enough for the field mappings
+// without needing DOMParser, which is unavailable inside Web Workers
+export interface XmlNode {
+  name: string;
+  children: XmlNode[];
+  text: string;
+}
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+// Equivalent of element.querySelector(name) - depth-first descendant search
+export const findFirst = (node: XmlNode, name: string): XmlNode | undefined => {
+  for (const child of node.children) {
+    if (child.name === name) return child;
+    const match = findFirst(child, name);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Equivalent of element.querySelectorAll(name)
+export const findAll = (node: XmlNode, name: string, matches: XmlNode[] = []): XmlNode[] => {
+  for (const child of node.children) {
+    if (child.name === name) matches.push(child);
+    findAll(child, name, matches);
+  }
+  return matches;
+};
+
+// Equivalent of element.textContent
+export const textContent = (node: XmlNode): string =>
+  node.text + node.children.map(textContent).join('');
+
+export interface ListingStream {
+  write: (chunk: string) => void;
+  close: () => void;
+}
+
+// Streaming XML reader - calls `onListing` as soon as each outermost listing
+// element closes, so large feeds never need to be held as a full document
+export const createListingStream = (
+  listingTags: string[],
+  onListing: (node: XmlNode) => void
+): ListingStream => {
+  const parser = new SaxesParser();
+  const stack: XmlNode[] = [];
+
+  parser.on('opentag', tag => {
+    const name = localName(tag.name);
+    if (stack.length === 0 && !listingTags.includes(name)) return;
+
+    const node: XmlNode = { name, children: [], text: '' };
+    stack[stack.length - 1]?.children.push(node);
+    stack.push(node);
+  });
+
+  parser.on('text', text => {
+    const current = stack[stack.length - 1];
+    if (current) current.text += text;
+  });
+
+  parser.on('cdata', cdata => {
+    const current = stack[stack.length - 1];
+    if (current) current.text += cdata;
+  });
+
+  parser.on('closetag', () => {
+    const node = stack.pop();
+    if (node && stack.length === 0) {
+      onListing(node);
+    }
+  });
+
+  return {
+    write: chunk => {
+      parser.write(chunk);
+    },
+    close: () => {
+      parser.close();
+    },
+  };
+};
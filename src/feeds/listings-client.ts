@@ -0,0 +1,73 @@
+import type { ListingType, Property } from '@/types/property';
+import type { FeedReport } from './goyzer';
+import type { ListingsWorkerMessage, LoadListingsRequest } from './listings.worker';
+
+// Local listings service (see server/) - holds the Goyzer credentials and proxies the feeds
+const LISTINGS_API_URL = import.meta.env.VITE_LISTINGS_API_URL || '';
+
+export const getListingsUrl = (type: ListingType): string =>
+  new URL(`${LISTINGS_API_URL}/api/listings/${type}`, window.location.origin).toString();
+
+interface LoadListingsOptions {
+  /** Called with each batch of parsed properties as they become available */
+  onBatch?: (properties: Property[]) => void;
+  /** Called with the parsing report once the whole feed has been processed */
+  onReport?: (report: FeedReport) => void;
+  /** Aborting terminates the worker and rejects with an AbortError */
+  signal?: AbortSignal;
+  batchSize?: number;
+}
+
+// Load a feed through a dedicated Web Worker, resolving with every parsed property
+export const loadListings = (type: ListingType, options: LoadListingsOptions = {}): Promise<Property[]> => {
+  const { onBatch, onReport, signal, batchSize } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Listings load aborted', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./listings.worker.ts', import.meta.url), { type: 'module' });
+    const properties: Property[] = [];
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Listings load aborted', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ListingsWorkerMessage>) => {
+      const message = event.data;
+      switch (message.kind) {
+        case 'batch':
+          properties.push(...message.properties);
+          onBatch?.(message.properties);
+          break;
+        case 'done':
+          cleanup();
+          onReport?.(message.report);
+          resolve(properties);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || `Failed to load ${type} listings`));
+    };
+
+    const request: LoadListingsRequest = { url: getListingsUrl(type), type, batchSize };
+    worker.postMessage(request);
+  });
+};
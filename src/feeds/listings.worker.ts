@@ -0,0 +1,72 @@
+import { createListingParser, type FeedReport } from './goyzer';
+import type { ListingType, Property } from '@/types/property';
+
+// Dedicated worker: streams a feed from the listings service, parses it off
+// the main thread and posts properties back in batches
+
+export interface LoadListingsRequest {
+  url: string;
+  type: ListingType;
+  batchSize?: number;
+}
+
+export type ListingsWorkerMessage =
+  | { kind: 'batch'; properties: Property[] }
+  | { kind: 'done'; total: number; report: FeedReport }
+  | { kind: 'error'; message: string };
+
+// Longer than the service's own Goyzer timeout, so its error response gets through
+const IDLE_TIMEOUT_MS = 20000;
+
+const ctx = self as unknown as Worker;
+
+const post = (message: ListingsWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<LoadListingsRequest>) => {
+  const { url, type, batchSize } = event.data;
+  let total = 0;
+
+  // Abort when the service stops responding - large feeds may stream for longer than
+  // the timeout, so it restarts with every chunk received
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const resetTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), IDLE_TIMEOUT_MS);
+  };
+
+  try {
+    resetTimeout();
+    const response = await fetch(url, {
+      headers: { 'Accept': 'application/xml, text/xml, */*' },
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Listings service returned ${response.status} for ${type} listings`);
+    }
+
+    const parser = createListingParser(type, properties => {
+      total += properties.length;
+      post({ kind: 'batch', properties });
+    }, batchSize);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetTimeout();
+      parser.write(value);
+    }
+    const report = parser.close();
+
+    post({ kind: 'done', total, report });
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Timed out loading ${type} listings`
+      : error instanceof Error ? error.message : String(error);
+    post({ kind: 'error', message });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
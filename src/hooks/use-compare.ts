@@ -0,0 +1,37 @@
+import { useCallback } from "react";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+
+export const MAX_COMPARE = 4;
+
+// Properties picked for side-by-side comparison, in the order they were picked
+export function useCompare() {
+  const [compareIds, setCompareIds] = useLocalStorage<string[]>("compare", []);
+
+  const isComparing = useCallback((id: string) => compareIds.includes(id), [compareIds]);
+
+  const toggleCompare = useCallback(
+    (id: string) => {
+      setCompareIds((prev) => {
+        if (prev.includes(id)) return prev.filter((item) => item !== id);
+        return prev.length >= MAX_COMPARE ? prev : [...prev, id];
+      });
+    },
+    [setCompareIds]
+  );
+
+  const removeCompare = useCallback(
+    (id: string) => setCompareIds((prev) => prev.filter((item) => item !== id)),
+    [setCompareIds]
+  );
+
+  const clearCompare = useCallback(() => setCompareIds([]), [setCompareIds]);
+
+  return {
+    compareIds,
+    isComparing,
+    isFull: compareIds.length >= MAX_COMPARE,
+    toggleCompare,
+    removeCompare,
+    clearCompare,
+  };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from "react";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+
+// Shortlisted property IDs, most recently added first. Stable IDs mean entries
+// survive feed refreshes and can be shared by link.
+export function useFavourites() {
+  const [favouriteIds, setFavouriteIds] = useLocalStorage<string[]>("favourites", []);
+  const favouriteSet = useMemo(() => new Set(favouriteIds), [favouriteIds]);
+
+  const isFavourite = useCallback((id: string) => favouriteSet.has(id), [favouriteSet]);
+
+  const toggleFavourite = useCallback(
+    (id: string) => {
+      setFavouriteIds((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [id, ...prev]));
+    },
+    [setFavouriteIds]
+  );
+
+  const removeFavourite = useCallback(
+    (id: string) => setFavouriteIds((prev) => prev.filter((item) => item !== id)),
+    [setFavouriteIds]
+  );
+
+  // Merge a shared shortlist into ours, keeping existing order
+  const addFavourites = useCallback(
+    (ids: string[]) => setFavouriteIds((prev) => [...prev, ...ids.filter((id) => !prev.includes(id))]),
+    [setFavouriteIds]
+  );
+
+  const clearFavourites = useCallback(() => setFavouriteIds([]), [setFavouriteIds]);
+
+  return { favouriteIds, isFavourite, toggleFavourite, removeFavourite, addFavourites, clearFavourites };
+}
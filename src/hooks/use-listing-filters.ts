@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { EMPTY_FACETS, type FacetId } from "@/lib/facets";
+import { DEFAULT_FILTERS, parseFilters, serializeFilters, type ListingFilters } from "@/lib/listing-filters";
+
+// Filter state backed by the query string. Every update pushes a history entry, and
+// any change other than the page itself goes back to the first page.
+export function useListingFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  const updateFilters = useCallback(
+    (changes: Partial<ListingFilters>) => {
+      setSearchParams((prev) => serializeFilters({ ...parseFilters(prev), page: 1, ...changes }, prev));
+    },
+    [setSearchParams]
+  );
+
+  // Tick / untick one value of a multi-select facet
+  const toggleFacetValue = useCallback(
+    (facetId: FacetId, value: string) => {
+      setSearchParams((prev) => {
+        const current = parseFilters(prev);
+        const selected = current.facets[facetId];
+        const next = selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value];
+        return serializeFilters({ ...current, page: 1, facets: { ...current.facets, [facetId]: next } }, prev);
+      });
+    },
+    [setSearchParams]
+  );
+
+  // Link target for a filter change, for real anchors such as pagination links
+  const getFiltersHref = useCallback(
+    (changes: Partial<ListingFilters>) => `?${serializeFilters({ ...filters, ...changes }, searchParams)}`,
+    [filters, searchParams]
+  );
+
+  const clearFacets = useCallback(() => {
+    updateFilters({ facets: EMPTY_FACETS });
+  }, [updateFilters]);
+
+  const clearFilters = useCallback(() => {
+    // Keep the tab, community, sort order and page size the user is looking at
+    setSearchParams((prev) => {
+      const { tab, community, sort, pageSize } = parseFilters(prev);
+      return serializeFilters({ ...DEFAULT_FILTERS, tab, community, sort, pageSize }, prev);
+    });
+  }, [setSearchParams]);
+
+  return { filters, updateFilters, getFiltersHref, toggleFacetValue, clearFacets, clearFilters };
+}
+
+// Local copy of a filter value for controls that change continuously (typing, dragging).
+// Changes are committed once they settle so history gets one entry per edit, not per keystroke.
+export function useFilterDraft<T>(value: T, commit: (value: T) => void, delay = 400) {
+  const [draft, setDraft] = useState(value);
+  const committed = JSON.stringify(value);
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+
+  // Follow external changes - back/forward navigation, clear filters
+  useEffect(() => {
+    setDraft(JSON.parse(committed));
+  }, [committed]);
+
+  useEffect(() => {
+    if (JSON.stringify(draft) === committed) return;
+    const timeout = setTimeout(() => commitRef.current(draft), delay);
+    return () => clearTimeout(timeout);
+  }, [draft, committed, delay]);
+
+  return [draft, setDraft] as const;
+}
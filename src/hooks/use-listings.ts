@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from "react";
+import { useQuery, useQueryClient, type UseQueryResult } from "@tanstack/react-query";
+import { loadListings } from "@/feeds/listings-client";
+import type { FeedReport } from "@/feeds/goyzer";
+import { getListingTypeFromId } from "@/lib/links";
+import { readSnapshot, writeSnapshot } from "@/lib/listings-cache";
+import type { ListingType, Property } from "@/types/property";
+
+const STALE_TIME = 5 * 60 * 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+
+export const listingsQueryKey = (type: ListingType) => ["listings", type] as const;
+export const feedReportQueryKey = (type: ListingType) => ["listings", type, "report"] as const;
+export const partialListingsQueryKey = (type: ListingType) => ["listings", type, "partial"] as const;
+
+const NO_PROPERTIES: Property[] = [];
+// Data older than this can only have come from the IndexedDB snapshot
+const SESSION_STARTED_AT = Date.now();
+
+// Exponential backoff: 1s, 2s, 4s... capped at 30s
+const retryDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY);
+
+// Subscribe to a value the listings query writes into the cache as a side effect.
+// There's nothing to fetch - the query function just reads back what is already there.
+function useCachedValue<T>(queryKey: readonly unknown[], fallback: T): T {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey,
+    queryFn: () => queryClient.getQueryData<T>(queryKey) ?? fallback,
+    staleTime: Infinity,
+  });
+
+  return data ?? fallback;
+}
+
+export type ListingsQueryResult = UseQueryResult<Property[], Error> & {
+  /** Batches parsed so far during a cold load, before `data` is available */
+  partialData: Property[];
+  /** Fetched from the service in this session, not just restored from the snapshot, and not refetching */
+  isSettled: boolean;
+};
+
+function useListings(type: ListingType): ListingsQueryResult {
+  const queryClient = useQueryClient();
+  // Kept in the cache rather than component state, so every subscriber sees the batches
+  const partialData = useCachedValue(partialListingsQueryKey(type), NO_PROPERTIES);
+
+  const query = useQuery({
+    queryKey: listingsQueryKey(type),
+    queryFn: async ({ queryKey, signal }) => {
+      // Only stream batches on a cold load - a background refresh keeps showing
+      // the previous data until the new feed has been parsed completely
+      const isColdLoad = !queryClient.getQueryData(queryKey);
+      const partialKey = partialListingsQueryKey(type);
+      if (isColdLoad) queryClient.setQueryData(partialKey, NO_PROPERTIES);
+
+      const properties = await loadListings(type, {
+        signal,
+        onBatch: isColdLoad
+          ? (batch) => queryClient.setQueryData<Property[]>(partialKey, (prev = NO_PROPERTIES) => [...prev, ...batch])
+          : undefined,
+        onReport: (report) => queryClient.setQueryData(feedReportQueryKey(type), report),
+      });
+
+      writeSnapshot({ type, properties, updatedAt: Date.now() });
+      return properties;
+    },
+    staleTime: STALE_TIME,
+    refetchOnWindowFocus: true,
+    retry: 3,
+    retryDelay,
+  });
+
+  // Seed the query from the IndexedDB snapshot so the last known listings render
+  // immediately; the in-flight fetch then revalidates them in the background
+  useEffect(() => {
+    let cancelled = false;
+    const queryKey = listingsQueryKey(type);
+
+    readSnapshot(type).then((snapshot) => {
+      if (cancelled || !snapshot || queryClient.getQueryData(queryKey)) return;
+      queryClient.setQueryData(queryKey, snapshot.properties, { updatedAt: snapshot.updatedAt });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryClient, type]);
+
+  const isSettled = query.dataUpdatedAt >= SESSION_STARTED_AT && !query.isFetching;
+
+  return { ...query, partialData, isSettled };
+}
+
+export function useSaleListings() {
+  return useListings("sale");
+}
+
+export function useRentListings() {
+  return useListings("rent");
+}
+
+// Look up a single property by its stable ID - only loads the feed it belongs to
+export function useProperty(id: string) {
+  const query = useListings(getListingTypeFromId(id));
+  const properties = query.data ?? query.partialData;
+  const property = properties.find((candidate) => candidate.id === id);
+
+  return {
+    property,
+    // Still worth waiting while the feed is streaming in, retrying or revalidating a
+    // snapshot - the listing may have been added since the snapshot was taken
+    isLoading: !property && query.isFetching,
+    // A failed refresh only matters when the snapshot doesn't have the listing either
+    error: property ? null : query.error,
+    refetch: query.refetch,
+  };
+}
+
+export interface PropertyLookup {
+  id: string;
+  property?: Property;
+  // Only set once the listing's feed has been fetched this session without it - a
+  // snapshot can be older than the listing
+  isMissing: boolean;
+}
+
+// Resolve a list of stable IDs (shortlists, shared links) against both feeds, in order
+export function usePropertiesById(ids: string[]) {
+  const sales = useSaleListings();
+  const rent = useRentListings();
+
+  const { data: salesData, partialData: salesPartial, isSettled: isSalesSettled } = sales;
+  const { data: rentData, partialData: rentPartial, isSettled: isRentSettled } = rent;
+
+  const entries = useMemo<PropertyLookup[]>(() => {
+    const feeds = {
+      sale: { isSettled: isSalesSettled, properties: salesData ?? salesPartial },
+      rent: { isSettled: isRentSettled, properties: rentData ?? rentPartial },
+    };
+    return ids.map((id) => {
+      const feed = feeds[getListingTypeFromId(id)];
+      const property = feed.properties.find((candidate) => candidate.id === id);
+      return { id, property, isMissing: !property && feed.isSettled };
+    });
+  }, [ids, salesData, salesPartial, isSalesSettled, rentData, rentPartial, isRentSettled]);
+
+  return {
+    entries,
+    isLoading: entries.some((entry) => !entry.property && !entry.isMissing) && (sales.isFetching || rent.isFetching),
+  };
+}
+
+// Latest parsing report for a feed - populated as a side effect of the listings query
+export function useFeedReport(type: ListingType) {
+  return useCachedValue<FeedReport | null>(feedReportQueryKey(type), null);
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const STORAGE_PREFIX = "chestertons-listings:";
+// Same-tab counterpart of the `storage` event, so every hook using a key stays in step
+const LOCAL_CHANGE_EVENT = "chestertons-listings:storage";
+
+const readValue = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return stored === null ? fallback : (JSON.parse(stored) as T);
+  } catch {
+    // Private mode or corrupted JSON - behave as if nothing was stored
+    return fallback;
+  }
+};
+
+// Per-browser preference persisted as JSON and kept in sync across components and tabs
+export function useLocalStorage<T>(key: string, fallback: T) {
+  const [value, setValue] = useState<T>(() => readValue(key, fallback));
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const fallbackRef = useRef(fallback);
+
+  const update = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      const resolved = next instanceof Function ? next(valueRef.current) : next;
+      valueRef.current = resolved;
+      setValue(resolved);
+      try {
+        window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(resolved));
+      } catch (error) {
+        console.warn(`Could not persist ${key}:`, error);
+      }
+      window.dispatchEvent(new CustomEvent(LOCAL_CHANGE_EVENT, { detail: key }));
+    },
+    [key]
+  );
+
+  useEffect(() => {
+    const reload = () => setValue(readValue(key, fallbackRef.current));
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_PREFIX + key) reload();
+    };
+    const onLocalChange = (event: Event) => {
+      if ((event as CustomEvent<string>).detail === key) reload();
+    };
+
+    window.addEventListener("storage", onStorage);
+    window.addEventListener(LOCAL_CHANGE_EVENT, onLocalChange);
+    return () => {
+      window.removeEventListener("storage", onStorage);
+      window.removeEventListener(LOCAL_CHANGE_EVENT, onLocalChange);
+    };
+  }, [key]);
+
+  return [value, update] as const;
+}
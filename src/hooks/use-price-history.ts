@@ -0,0 +1,32 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { getChangeTimes, recordSnapshot, type PriceHistory } from "@/lib/price-history";
+import type { ListingType, Property } from "@/types/property";
+
+const STORAGE_KEY = "price-history";
+
+export function usePriceHistory() {
+  const [history] = useLocalStorage<PriceHistory>(STORAGE_KEY, {});
+  const changeTimes = useMemo(() => getChangeTimes(history), [history]);
+
+  return { history, changeTimes };
+}
+
+// Fold every completed feed load into the stored history. Pass `query.data`, not the
+// partial data - listings that haven't streamed in yet would look removed.
+export function usePriceHistoryRecorder(sales: Property[] | undefined, rent: Property[] | undefined) {
+  const [history, setHistory] = useLocalStorage<PriceHistory>(STORAGE_KEY, {});
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  useEffect(() => {
+    const feeds: [ListingType, Property[] | undefined][] = [["sale", sales], ["rent", rent]];
+    // An empty feed is far more likely an upstream glitch than every listing going at once
+    const next = feeds.reduce(
+      (current, [type, properties]) => (properties?.length ? recordSnapshot(current, type, properties) : current),
+      historyRef.current
+    );
+
+    if (next !== historyRef.current) setHistory(next);
+  }, [sales, rent, setHistory]);
+}
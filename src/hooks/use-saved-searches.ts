@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useToast } from "@/hooks/use-toast";
+import type { ListingFilters } from "@/lib/listing-filters";
+import { getSearchMatches, toSearchQuery, type SavedSearch } from "@/lib/saved-searches";
+import type { ListingType, Property } from "@/types/property";
+
+const createSearchId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : Date.now().toString(36);
+
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useLocalStorage<SavedSearch[]>("saved-searches", []);
+
+  // Everything matching right now counts as seen, so only later listings are "new"
+  const saveSearch = useCallback(
+    (name: string, filters: ListingFilters, matchIds: string[]) => {
+      const search: SavedSearch = {
+        id: createSearchId(),
+        name,
+        query: toSearchQuery(filters),
+        createdAt: new Date().toISOString(),
+        seenIds: matchIds,
+        newIds: [],
+      };
+      setSavedSearches((prev) => [search, ...prev]);
+
+      // Ask while we still have the click - browsers ignore requests without a user gesture
+      if ("Notification" in window && Notification.permission === "default") {
+        Notification.requestPermission().catch(() => undefined);
+      }
+      return search;
+    },
+    [setSavedSearches]
+  );
+
+  const deleteSearch = useCallback(
+    (id: string) => setSavedSearches((prev) => prev.filter((search) => search.id !== id)),
+    [setSavedSearches]
+  );
+
+  // Opening a search acknowledges its new matches
+  const markSeen = useCallback(
+    (id: string) => {
+      setSavedSearches((prev) =>
+        prev.map((search) =>
+          search.id === id ? { ...search, seenIds: [...search.seenIds, ...search.newIds], newIds: [] } : search
+        )
+      );
+    },
+    [setSavedSearches]
+  );
+
+  const totalNew = savedSearches.reduce((sum, search) => sum + search.newIds.length, 0);
+
+  return { savedSearches, setSavedSearches, saveSearch, deleteSearch, markSeen, totalNew };
+}
+
+// Re-evaluate every saved search whenever a feed finishes (re)loading, and announce
+// matches that weren't there before via toast and, when permitted, a browser notification
+export function useSavedSearchAlerts(sales: Property[] | undefined, rent: Property[] | undefined) {
+  const { savedSearches, setSavedSearches } = useSavedSearches();
+  const { toast } = useToast();
+  const searchesRef = useRef(savedSearches);
+  searchesRef.current = savedSearches;
+
+  useEffect(() => {
+    if (!sales && !rent) return;
+
+    const feeds: Record<ListingType, Property[] | undefined> = { sale: sales, rent };
+    const titles = new Map([...(sales ?? []), ...(rent ?? [])].map((property) => [property.id, property.title]));
+    const announcements: { search: SavedSearch; ids: string[] }[] = [];
+    let changed = false;
+
+    const updated = searchesRef.current.map((search) => {
+      const matches = getSearchMatches(search, feeds);
+      if (!matches) return search;
+
+      const seen = new Set(search.seenIds);
+      const newIds = matches.filter((id) => !seen.has(id));
+      const discovered = newIds.filter((id) => !search.newIds.includes(id));
+      if (discovered.length > 0) announcements.push({ search, ids: discovered });
+
+      if (newIds.length === search.newIds.length && discovered.length === 0) return search;
+      changed = true;
+      return { ...search, newIds };
+    });
+
+    if (changed) setSavedSearches(updated);
+
+    announcements.forEach(({ search, ids }) => {
+      const names = ids.slice(0, 3).map((id) => titles.get(id)).filter(Boolean).join(", ");
+      const more = ids.length > 3 ? ` and ${ids.length - 3} more` : "";
+      const title = `${ids.length} new ${ids.length === 1 ? "match" : "matches"} for "${search.name}"`;
+      const description = `${names}${more}`;
+
+      toast({ title, description });
+      if ("Notification" in window && Notification.permission === "granted") {
+        new Notification(title, { body: description, tag: `saved-search-${search.id}` });
+      }
+    });
+  }, [sales, rent, setSavedSearches, toast]);
+}
@@ -0,0 +1,24 @@
+import { CATEGORY_TAXONOMY, RESIDENTIAL_CATEGORIES, type CategoryConfig, type CategoryId } from '@/config/categories';
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const RAW_CATEGORY_LOOKUP = new Map<string, CategoryConfig>(
+  CATEGORY_TAXONOMY.flatMap(category =>
+    category.rawCategories.map(raw => [normalize(raw), category] as const)
+  )
+);
+
+const RESIDENTIAL_LOOKUP = new Set(RESIDENTIAL_CATEGORIES.map(normalize));
+
+// Map a raw Goyzer category onto the canonical commercial taxonomy
+export const mapCategory = (rawCategory: string): CategoryConfig | undefined => {
+  return RAW_CATEGORY_LOOKUP.get(normalize(rawCategory));
+};
+
+export const isResidentialCategory = (rawCategory: string): boolean => {
+  return RESIDENTIAL_LOOKUP.has(normalize(rawCategory));
+};
+
+export const getCategory = (id: CategoryId): CategoryConfig | undefined => {
+  return CATEGORY_TAXONOMY.find(category => category.id === id);
+};
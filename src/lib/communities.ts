@@ -0,0 +1,39 @@
+import { COMMUNITY_REGISTRY, type CommunityConfig } from '@/config/communities';
+
+// Registry sorted for display
+export const COMMUNITIES: CommunityConfig[] = [...COMMUNITY_REGISTRY].sort((a, b) => a.sortOrder - b.sortOrder);
+
+export const COMMUNITY_NAMES = COMMUNITIES.map(community => community.name);
+
+// Lowercased match terms -> community, longest first so specific aliases win
+const MATCH_TERMS = COMMUNITIES
+  .flatMap(community =>
+    [community.name, ...community.aliases, ...community.subCommunities].map(term => ({
+      term: term.toLowerCase(),
+      community,
+    }))
+  )
+  .sort((a, b) => b.term.length - a.term.length);
+
+const findCommunity = (value: string): CommunityConfig | undefined => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return MATCH_TERMS.find(({ term }) => normalized.includes(term))?.community;
+};
+
+// Map raw feed community / sub-community names onto a registered community
+export const resolveCommunity = (community: string, subCommunity: string = ''): CommunityConfig | undefined => {
+  return findCommunity(community) ?? findCommunity(subCommunity);
+};
+
+export const getCommunityBySlug = (slug: string): CommunityConfig | undefined => {
+  return COMMUNITIES.find(community => community.slug === slug);
+};
+
+export const getCommunityByName = (name: string): CommunityConfig | undefined => {
+  return COMMUNITIES.find(community => community.name === name);
+};
+
+export const isTargetCommunity = (name: string): boolean => {
+  return getCommunityByName(name) !== undefined;
+};
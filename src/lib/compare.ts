@@ -0,0 +1,85 @@
+import { formatPrice, formatPricePerSqft, formatPropertyArea } from '@/lib/format';
+import { getKnownArea, getPricePerSqft } from '@/lib/pricing';
+import type { Property } from '@/types/property';
+
+// Rows of the comparison table. Numeric rows say which end is better so the
+// best value can be called out; every row is highlighted when the values differ.
+
+export interface CompareRow {
+  label: string;
+  format: (property: Property) => string | undefined;
+  numeric?: (property: Property) => number | undefined;
+  better?: 'lower' | 'higher';
+  /** Sale prices and annual rents aren't comparable, so the best is picked per listing type */
+  perListingType?: boolean;
+}
+
+export const COMPARE_ROWS: CompareRow[] = [
+  { label: 'Listing', format: property => (property.type === 'sale' ? 'For sale' : 'For rent') },
+  {
+    label: 'Price',
+    format: property => `${formatPrice(property.price)}${property.type === 'rent' ? '/year' : ''}`,
+    numeric: property => property.price,
+    better: 'lower',
+    perListingType: true,
+  },
+  {
+    label: 'Area',
+    format: formatPropertyArea,
+    numeric: getKnownArea,
+    better: 'higher',
+  },
+  {
+    label: 'Price per sq ft',
+    format: property => {
+      const pricePerSqft = getPricePerSqft(property);
+      return pricePerSqft === undefined ? undefined : formatPricePerSqft(pricePerSqft, property.type);
+    },
+    numeric: getPricePerSqft,
+    better: 'lower',
+    perListingType: true,
+  },
+  { label: 'Community', format: property => property.community },
+  { label: 'Category', format: property => property.category },
+  { label: 'Fit-out', format: property => property.fitOutStatus },
+  {
+    label: 'Parking',
+    format: property => (property.parkingSpaces === undefined ? undefined : `${property.parkingSpaces} spaces`),
+    numeric: property => property.parkingSpaces,
+    better: 'higher',
+  },
+  {
+    label: 'Service charge',
+    format: property =>
+      property.serviceCharge === undefined ? undefined : `AED ${property.serviceCharge.toLocaleString()}/sq ft`,
+    numeric: property => property.serviceCharge,
+    better: 'lower',
+  },
+  { label: 'Agent', format: property => property.agentName },
+];
+
+export const rowHasDifferences = (row: CompareRow, properties: Property[]): boolean => {
+  return new Set(properties.map(property => row.format(property) ?? '')).size > 1;
+};
+
+// IDs of the properties holding the best value in a numeric row (ties all count)
+export const getBestInRow = (row: CompareRow, properties: Property[]): Set<string> => {
+  const { numeric, better } = row;
+  if (!numeric || !better || properties.length < 2) return new Set();
+
+  if (row.perListingType) {
+    const sale = getBestInRow({ ...row, perListingType: false }, properties.filter(property => property.type === 'sale'));
+    const rent = getBestInRow({ ...row, perListingType: false }, properties.filter(property => property.type === 'rent'));
+    return new Set([...sale, ...rent]);
+  }
+
+  const values = properties
+    .map(property => ({ id: property.id, value: numeric(property) }))
+    .filter((entry): entry is { id: string; value: number } => entry.value !== undefined);
+  if (values.length < 2) return new Set();
+
+  const best = better === 'lower'
+    ? Math.min(...values.map(entry => entry.value))
+    : Math.max(...values.map(entry => entry.value));
+  return new Set(values.filter(entry => entry.value === best).map(entry => entry.id));
+};
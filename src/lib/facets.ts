@@ -0,0 +1,90 @@
+import type { CategoryId } from '@/config/categories';
+import { getCategory } from '@/lib/categories';
+import { getCommunityByName, getCommunityBySlug } from '@/lib/communities';
+import type { ListingType, Property } from '@/types/property';
+
+// Multi-select facets shown in the filter sidebar. Each facet reads one value per
+// listing; selecting several values within a facet is an OR, across facets an AND.
+
+export type FacetId = 'category' | 'community' | 'fitOut' | 'agent' | 'priceBand';
+
+export type FacetSelections = Record<FacetId, string[]>;
+
+export const EMPTY_FACETS: FacetSelections = {
+  category: [],
+  community: [],
+  fitOut: [],
+  agent: [],
+  priceBand: [],
+};
+
+export interface FacetDefinition {
+  id: FacetId;
+  label: string;
+  /** Query string key - repeated once per selected value */
+  param: string;
+  getValue: (property: Property) => string | undefined;
+  getValueLabel: (value: string, type: ListingType) => string;
+}
+
+// Bands share IDs across sale and rent so a selection survives switching tabs,
+// but the thresholds differ - rent is quoted per year
+interface PriceBand {
+  id: string;
+  max: Record<ListingType, number>;
+  labels: Record<ListingType, string>;
+}
+
+const PRICE_BANDS: PriceBand[] = [
+  { id: 'entry', max: { sale: 1000000, rent: 100000 }, labels: { sale: 'Under AED 1M', rent: 'Under AED 100K' } },
+  { id: 'mid', max: { sale: 3000000, rent: 250000 }, labels: { sale: 'AED 1M - 3M', rent: 'AED 100K - 250K' } },
+  { id: 'upper', max: { sale: 10000000, rent: 500000 }, labels: { sale: 'AED 3M - 10M', rent: 'AED 250K - 500K' } },
+  { id: 'prime', max: { sale: Infinity, rent: Infinity }, labels: { sale: 'AED 10M+', rent: 'AED 500K+' } },
+];
+
+export const getPriceBand = (property: Property): string => {
+  return PRICE_BANDS.find(band => property.price < band.max[property.type])?.id ?? PRICE_BANDS[PRICE_BANDS.length - 1].id;
+};
+
+export const FACETS: FacetDefinition[] = [
+  {
+    id: 'category',
+    label: 'Category',
+    param: 'type',
+    getValue: property => property.categoryId,
+    getValueLabel: value => getCategory(value as CategoryId)?.label ?? value,
+  },
+  {
+    id: 'community',
+    label: 'Community',
+    param: 'in',
+    getValue: property => getCommunityByName(property.community)?.slug,
+    getValueLabel: value => getCommunityBySlug(value)?.name ?? value,
+  },
+  {
+    id: 'priceBand',
+    label: 'Price band',
+    param: 'band',
+    getValue: getPriceBand,
+    getValueLabel: (value, type) => PRICE_BANDS.find(band => band.id === value)?.labels[type] ?? value,
+  },
+  {
+    id: 'fitOut',
+    label: 'Fit-out',
+    param: 'fitout',
+    getValue: property => property.fitOutStatus,
+    getValueLabel: value => value,
+  },
+  {
+    id: 'agent',
+    label: 'Agent',
+    param: 'agent',
+    getValue: property => property.agentName,
+    getValueLabel: value => value,
+  },
+];
+
+// Facets whose option list is fixed rather than discovered from the data, in display order
+export const FIXED_FACET_VALUES: Partial<Record<FacetId, string[]>> = {
+  priceBand: PRICE_BANDS.map(band => band.id),
+};
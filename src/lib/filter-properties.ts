@@ -0,0 +1,89 @@
+import { FACETS, FIXED_FACET_VALUES, type FacetId } from '@/lib/facets';
+import type { ListingFilters } from '@/lib/listing-filters';
+import { isTargetCommunity } from '@/lib/communities';
+import { getPropertyPosition, isInShape } from '@/lib/geo';
+import { getKnownArea, getPricePerSqft } from '@/lib/pricing';
+import { isInRange } from '@/lib/ranges';
+import type { Property } from '@/types/property';
+
+// The one filter predicate - listings, tab counts and facet counts all go through here
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+const matchesSearch = (property: Property, searchTerm: string): boolean => {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) return true;
+
+  return [property.title, property.community, property.category, property.rawCategory]
+    .some(value => value?.toLowerCase().includes(term));
+};
+
+const matchesFacets = (property: Property, filters: ListingFilters, ignoreFacet?: FacetId): boolean => {
+  return FACETS.every(facet => {
+    const selected = filters.facets[facet.id];
+    if (facet.id === ignoreFacet || selected.length === 0) return true;
+
+    const value = facet.getValue(property);
+    return value !== undefined && selected.includes(value);
+  });
+};
+
+export const matchesFilters = (property: Property, filters: ListingFilters, ignoreFacet?: FacetId): boolean => {
+  if (property.propertyType !== 'commercial' || !isTargetCommunity(property.community)) return false;
+  if (!matchesSearch(property, filters.searchTerm)) return false;
+  if (!isInRange(property.price, filters.priceRange)) return false;
+
+  // Listings without an area or price per sq ft can't be compared, so they stay in
+  const area = getKnownArea(property);
+  if (area !== undefined && !isInRange(area, filters.areaRange)) return false;
+  const pricePerSqft = getPricePerSqft(property);
+  if (pricePerSqft !== undefined && !isInRange(pricePerSqft, filters.pricePerSqftRange)) return false;
+
+  // Only listings with their own coordinates can be placed inside a drawn area - the
+  // approximate map position of the rest is just a spot near their community centre
+  if (filters.shape) {
+    const position = getPropertyPosition(property);
+    if (!position || position.approximate || !isInShape(position, filters.shape)) return false;
+  }
+
+  return matchesFacets(property, filters, ignoreFacet);
+};
+
+export const filterProperties = (properties: Property[], filters: ListingFilters): Property[] => {
+  return properties.filter(property => matchesFilters(property, filters));
+};
+
+// Options for every facet, each counted against all the *other* active filters so
+// ticking a value never zeroes out its siblings. Selected values are always listed.
+export const getFacetOptions = (properties: Property[], filters: ListingFilters): Record<FacetId, FacetOption[]> => {
+  const options = {} as Record<FacetId, FacetOption[]>;
+
+  FACETS.forEach(facet => {
+    const counts = new Map<string, number>();
+    FIXED_FACET_VALUES[facet.id]?.forEach(value => counts.set(value, 0));
+    filters.facets[facet.id].forEach(value => counts.set(value, counts.get(value) ?? 0));
+
+    properties.forEach(property => {
+      if (!matchesFilters(property, filters, facet.id)) return;
+      const value = facet.getValue(property);
+      if (value !== undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+
+    const facetOptions = [...counts].map(([value, count]) => ({
+      value,
+      label: facet.getValueLabel(value, filters.tab),
+      count,
+    }));
+
+    // Fixed lists keep their order, discovered values are busiest first
+    options[facet.id] = FIXED_FACET_VALUES[facet.id]
+      ? facetOptions
+      : facetOptions.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  });
+
+  return options;
+};
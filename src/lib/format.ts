@@ -0,0 +1,28 @@
+import { format } from 'date-fns';
+import type { ListingType, Property } from '@/types/property';
+
+export const formatPrice = (price: number) => {
+  return `AED ${price.toLocaleString()}`;
+};
+
+export const formatArea = (area: number) => {
+  return `${area.toLocaleString()} sq ft`;
+};
+
+// A listing's area, without passing the feed's placeholder off as a real figure
+export const formatPropertyArea = (property: Property) => {
+  return property.isAreaEstimated ? 'Area not provided' : formatArea(property.area);
+};
+
+// Rent is quoted per year, so its rate per sq ft is annual too
+export const formatPricePerSqft = (value: number, type: ListingType) => {
+  return `AED ${Math.round(value).toLocaleString()}/sq ft${type === 'rent' ? '/yr' : ''}`;
+};
+
+export const formatDistance = (metres: number) => {
+  return metres < 1000 ? `${Math.round(metres)} m` : `${(metres / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} km`;
+};
+
+export const formatDate = (isoDate: string) => {
+  return format(new Date(isoDate), 'd MMM yyyy');
+};
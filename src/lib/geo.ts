@@ -0,0 +1,85 @@
+import type { FeatureCollection, Polygon } from 'geojson';
+import boundaries from '@/config/community-boundaries.json';
+import { getCommunityByName } from '@/lib/communities';
+import { formatDistance } from '@/lib/format';
+import type { Coordinates, Property } from '@/types/property';
+
+export interface CommunityBoundaryProperties {
+  slug: string;
+  name: string;
+}
+
+export const COMMUNITY_BOUNDARIES = boundaries as FeatureCollection<Polygon, CommunityBoundaryProperties>;
+
+export interface MapPosition extends Coordinates {
+  /** True when placed at the community centroid rather than the listing's own coordinates */
+  approximate: boolean;
+}
+
+// Spread centroid-placed listings a little (~150m) so they don't sit exactly on top of
+// each other. Seeded from the ID so a listing keeps its spot across refreshes.
+const jitter = (id: string): [number, number] => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193);
+  }
+  const angle = ((hash >>> 0) % 360) * (Math.PI / 180);
+  const radius = 0.0005 + ((hash >>> 9) % 100) / 100 * 0.001;
+  return [Math.sin(angle) * radius, Math.cos(angle) * radius];
+};
+
+export const getPropertyPosition = (property: Property): MapPosition | undefined => {
+  if (property.coordinates) {
+    return { ...property.coordinates, approximate: false };
+  }
+
+  const centroid = getCommunityByName(property.community)?.centroid;
+  if (!centroid) return undefined;
+
+  const [latOffset, lngOffset] = jitter(property.id);
+  return { latitude: centroid.latitude + latOffset, longitude: centroid.longitude + lngOffset, approximate: true };
+};
+
+// Drawn search shape - a free-hand polygon or a radius (in metres) around a point
+export type SearchShape =
+  | { kind: 'polygon'; points: Coordinates[] }
+  | { kind: 'radius'; center: Coordinates; radius: number };
+
+// Walking-distance presets offered when dropping a radius
+export const RADIUS_OPTIONS = [250, 500, 1000, 2000];
+export const DEFAULT_RADIUS = 500;
+
+const EARTH_RADIUS = 6371000;
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+// Great-circle distance in metres
+export const getDistance = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(a));
+};
+
+// Ray casting - fine at community scale, where the lat/lng grid is close enough to flat
+const isInPolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+export const isInShape = (point: Coordinates, shape: SearchShape): boolean => {
+  return shape.kind === 'polygon'
+    ? isInPolygon(point, shape.points)
+    : getDistance(shape.center, point) <= shape.radius;
+};
+
+export const getShapeLabel = (shape: SearchShape): string => {
+  return shape.kind === 'polygon' ? 'Inside drawn area' : `Within ${formatDistance(shape.radius)} of a point`;
+};
@@ -0,0 +1,95 @@
+import { FACETS, FIXED_FACET_VALUES, type FacetId } from '@/lib/facets';
+import { filterProperties, getFacetOptions, type FacetOption } from '@/lib/filter-properties';
+import { getTypeFilters, type ListingFilters } from '@/lib/listing-filters';
+import { getPricePerSqft } from '@/lib/pricing';
+import { buildHistogram, getRangeBounds, type HistogramBin } from '@/lib/ranges';
+import type { ListingType, Property } from '@/types/property';
+
+// Market figures for the insights page, worked out from the loaded feeds
+
+export type InsightGroup = 'community' | 'category';
+
+export interface GroupInsight {
+  label: string;
+  saleCount: number;
+  rentCount: number;
+  saleMedianPricePerSqft?: number;
+  rentMedianPricePerSqft?: number;
+}
+
+export const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const getMedianPricePerSqft = (properties: Property[]): number | undefined => {
+  return median(properties.map(getPricePerSqft).filter((value): value is number => value !== undefined));
+};
+
+export const filterInventory = (
+  feeds: Record<ListingType, Property[]>,
+  filters: ListingFilters
+): Record<ListingType, Property[]> => ({
+  sale: filterProperties(feeds.sale, getTypeFilters(filters, 'sale')),
+  rent: filterProperties(feeds.rent, getTypeFilters(filters, 'rent')),
+});
+
+// Facet counts across both feeds, each counted with the filters that apply to it
+export const getInventoryFacetOptions = (
+  feeds: Record<ListingType, Property[]>,
+  filters: ListingFilters
+): Record<FacetId, FacetOption[]> => {
+  const sale = getFacetOptions(feeds.sale, getTypeFilters(filters, 'sale'));
+  const rent = getFacetOptions(feeds.rent, getTypeFilters(filters, 'rent'));
+  const options = {} as Record<FacetId, FacetOption[]>;
+
+  FACETS.forEach(({ id }) => {
+    const merged = new Map(sale[id].map(option => [option.value, { ...option }]));
+    rent[id].forEach(option => {
+      const existing = merged.get(option.value);
+      if (existing) existing.count += option.count;
+      else merged.set(option.value, { ...option });
+    });
+
+    options[id] = FIXED_FACET_VALUES[id]
+      ? [...merged.values()]
+      : [...merged.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  });
+
+  return options;
+};
+
+const getGroupLabel = (property: Property, group: InsightGroup): string => {
+  return (group === 'community' ? property.community : property.category) || 'Other';
+};
+
+// One row per community / category, busiest first
+export const getGroupInsights = (inventory: Record<ListingType, Property[]>, group: InsightGroup): GroupInsight[] => {
+  const grouped = new Map<string, Record<ListingType, Property[]>>();
+  (['sale', 'rent'] as const).forEach(type => {
+    inventory[type].forEach(property => {
+      const label = getGroupLabel(property, group);
+      const entry = grouped.get(label) ?? { sale: [], rent: [] };
+      entry[type].push(property);
+      grouped.set(label, entry);
+    });
+  });
+
+  return [...grouped.entries()]
+    .map(([label, { sale, rent }]) => ({
+      label,
+      saleCount: sale.length,
+      rentCount: rent.length,
+      saleMedianPricePerSqft: getMedianPricePerSqft(sale),
+      rentMedianPricePerSqft: getMedianPricePerSqft(rent),
+    }))
+    .sort((a, b) => b.saleCount + b.rentCount - (a.saleCount + a.rentCount) || a.label.localeCompare(b.label));
+};
+
+export const getPriceDistribution = (properties: Property[], binCount = 16): HistogramBin[] => {
+  const prices = properties.map(property => property.price).filter(price => price > 0);
+  return buildHistogram(prices, getRangeBounds(prices), binCount);
+};
@@ -0,0 +1,24 @@
+import type { ListingType } from '@/types/property';
+
+// Shareable deep links to a single property
+
+export const getPropertyPath = (id: string) => `/property/${encodeURIComponent(id)}`;
+
+export const getPropertyUrl = (id: string) => `${window.location.origin}${getPropertyPath(id)}`;
+
+// Stable IDs are prefixed with the feed they came from (see feeds/goyzer/identity)
+export const getListingTypeFromId = (id: string): ListingType => {
+  return id.startsWith('rent-') ? 'rent' : 'sale';
+};
+
+// Shortlists are shared as a comma-separated list of stable IDs
+export const getShortlistPath = (ids: string[]) => `/shortlist?ids=${ids.map(encodeURIComponent).join(',')}`;
+
+export const getShortlistUrl = (ids: string[]) => `${window.location.origin}${getShortlistPath(ids)}`;
+
+export const parseIdList = (value: string | null): string[] => {
+  if (!value) return [];
+  return [...new Set(value.split(',').map(id => id.trim()).filter(Boolean))];
+};
+
+export const getComparePath = (ids: string[]) => `/compare?ids=${ids.map(encodeURIComponent).join(',')}`;
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { COMMUNITIES } from '@/lib/communities';
+import { DEFAULT_FILTERS, getTypeFilters, parseFilters, serializeFilters, type ListingFilters } from '@/lib/listing-filters';
+
+const roundTrip = (filters: ListingFilters) => parseFilters(serializeFilters(filters));
+
+describe('parseFilters / serializeFilters', () => {
+  it('keeps the default view out of the URL', () => {
+    expect(serializeFilters(DEFAULT_FILTERS).toString()).toBe('');
+    expect(parseFilters(new URLSearchParams())).toEqual(DEFAULT_FILTERS);
+  });
+
+  it('round-trips ranges, facets and paging', () => {
+    const filters: ListingFilters = {
+      ...DEFAULT_FILTERS,
+      searchTerm: 'bay square',
+      priceRange: [1000000, 3000000],
+      areaRange: [500, 2500],
+      pricePerSqftRange: [900, 1800],
+      changedOnly: true,
+      facets: { ...DEFAULT_FILTERS.facets, category: ['office', 'retail'], fitOut: ['Fitted'] },
+      tab: 'rent',
+      community: COMMUNITIES[1].name,
+      sort: 'price-desc',
+      page: 3,
+      pageSize: 48,
+    };
+
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('round-trips a drawn polygon', () => {
+    const filters: ListingFilters = {
+      ...DEFAULT_FILTERS,
+      shape: {
+        kind: 'polygon',
+        points: [
+          { latitude: 25.18, longitude: 55.27 },
+          { latitude: 25.19, longitude: 55.28 },
+          { latitude: 25.17, longitude: 55.29 },
+        ],
+      },
+    };
+
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('round-trips a radius search', () => {
+    const filters: ListingFilters = {
+      ...DEFAULT_FILTERS,
+      shape: { kind: 'radius', center: { latitude: 25.1862, longitude: 55.2781 }, radius: 1000 },
+    };
+
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('leaves params owned by other features alone', () => {
+    const params = serializeFilters({ ...DEFAULT_FILTERS, tab: 'rent' }, new URLSearchParams('ref=newsletter'));
+    expect(params.get('ref')).toBe('newsletter');
+  });
+
+  it('swaps reversed range bounds', () => {
+    expect(parseFilters(new URLSearchParams('price=3000000-1000000')).priceRange).toEqual([1000000, 3000000]);
+  });
+
+  it('falls back to the defaults for malformed params', () => {
+    const params = new URLSearchParams({
+      price: 'cheap',
+      area: '100-',
+      ppsf: '-5-10',
+      poly: '25.1,55.2,25.2',
+      near: '25.1,55.2,-100',
+      tab: 'lease',
+      community: 'atlantis',
+      sort: 'random',
+      page: '-2',
+      size: '13',
+    });
+
+    expect(parseFilters(params)).toEqual(DEFAULT_FILTERS);
+  });
+
+  it('drops shapes with out-of-range coordinates', () => {
+    expect(parseFilters(new URLSearchParams('poly=95,55,25,55,25,56')).shape).toBeNull();
+    expect(parseFilters(new URLSearchParams('near=25,200,500')).shape).toBeNull();
+  });
+});
+
+describe('getTypeFilters', () => {
+  const filters: ListingFilters = {
+    ...DEFAULT_FILTERS,
+    priceRange: [1000000, 3000000],
+    areaRange: [500, 2500],
+    pricePerSqftRange: [900, 1800],
+  };
+
+  it('keeps every filter for the active tab', () => {
+    expect(getTypeFilters(filters, 'sale')).toBe(filters);
+  });
+
+  it('drops the price ranges for the other tab', () => {
+    expect(getTypeFilters(filters, 'rent')).toEqual({ ...filters, priceRange: null, pricePerSqftRange: null });
+  });
+});
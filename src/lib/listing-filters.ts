@@ -0,0 +1,191 @@
+import { EMPTY_FACETS, FACETS, type FacetSelections } from '@/lib/facets';
+import { DEFAULT_SORT, isSortOption, type SortOption } from '@/lib/listing-sort';
+import { COMMUNITIES, getCommunityByName, getCommunityBySlug } from '@/lib/communities';
+import type { SearchShape } from '@/lib/geo';
+import type { Coordinates, ListingType } from '@/types/property';
+
+// Search and filter state, serialized to the query string so views can be shared and
+// browser back/forward walks through filter changes
+
+export type NumericRange = [number, number];
+
+export interface ListingFilters {
+  searchTerm: string;
+  // null = no limit; bounds come from the loaded data rather than fixed maximums
+  priceRange: NumericRange | null;
+  areaRange: NumericRange | null;
+  pricePerSqftRange: NumericRange | null;
+  // Polygon or radius drawn on the map
+  shape: SearchShape | null;
+  // Only listings that are new or repriced lately, per the locally recorded history
+  changedOnly: boolean;
+  facets: FacetSelections;
+  tab: ListingType;
+  community: string;
+  sort: SortOption;
+  page: number;
+  pageSize: number;
+}
+
+export const PAGE_SIZES = [12, 24, 48, 96];
+
+export const DEFAULT_FILTERS: ListingFilters = {
+  searchTerm: '',
+  priceRange: null,
+  areaRange: null,
+  pricePerSqftRange: null,
+  shape: null,
+  changedOnly: false,
+  facets: EMPTY_FACETS,
+  tab: 'sale',
+  community: COMMUNITIES[0].name,
+  sort: DEFAULT_SORT,
+  page: 1,
+  pageSize: 24,
+};
+
+const PARAMS = {
+  searchTerm: 'q',
+  priceRange: 'price',
+  areaRange: 'area',
+  pricePerSqftRange: 'ppsf',
+  polygon: 'poly',
+  radius: 'near',
+  changedOnly: 'changed',
+  tab: 'tab',
+  community: 'community',
+  sort: 'sort',
+  page: 'page',
+  pageSize: 'size',
+} as const;
+
+// "min-max" -> [min, max]; reversed bounds are swapped, anything malformed means no limit
+const parseRange = (value: string | null): NumericRange | null => {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return null;
+
+  const bounds = [Number(match[1]), Number(match[2])];
+  return [Math.min(...bounds), Math.max(...bounds)];
+};
+
+const formatRange = (range: NumericRange | null) => range && `${Math.round(range[0])}-${Math.round(range[1])}`;
+
+// ~1m precision is plenty for a hand-drawn shape and keeps the URL short
+const formatCoordinate = (value: number) => String(Number(value.toFixed(5)));
+
+const parseNumbers = (value: string | null): number[] | null => {
+  const numbers = value?.split(',').map(Number);
+  return numbers && numbers.every(Number.isFinite) ? numbers : null;
+};
+
+const isValidCoordinates = ({ latitude, longitude }: Coordinates) => {
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+};
+
+// poly=lat,lng,lat,lng,... (at least three corners) or near=lat,lng,metres.
+// A malformed shape is dropped rather than matching nothing.
+const parseShape = (params: URLSearchParams): SearchShape | null => {
+  const polygon = parseNumbers(params.get(PARAMS.polygon));
+  if (polygon && polygon.length >= 6 && polygon.length % 2 === 0) {
+    const points: Coordinates[] = [];
+    for (let i = 0; i < polygon.length; i += 2) {
+      points.push({ latitude: polygon[i], longitude: polygon[i + 1] });
+    }
+    if (points.every(isValidCoordinates)) return { kind: 'polygon', points };
+  }
+
+  const radius = parseNumbers(params.get(PARAMS.radius));
+  if (radius && radius.length === 3 && radius[2] > 0) {
+    const center = { latitude: radius[0], longitude: radius[1] };
+    if (isValidCoordinates(center)) return { kind: 'radius', center, radius: radius[2] };
+  }
+
+  return null;
+};
+
+// Facet values repeat their param (?type=office&type=retail)
+const parseFacets = (params: URLSearchParams): FacetSelections => {
+  const selections = { ...EMPTY_FACETS };
+  FACETS.forEach(facet => {
+    selections[facet.id] = [...new Set(params.getAll(facet.param).filter(Boolean))];
+  });
+  return selections;
+};
+
+const parseSort = (value: string | null): SortOption => {
+  return isSortOption(value) ? value : DEFAULT_SORT;
+};
+
+const parsePage = (value: string | null): number => {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 1 ? page : DEFAULT_FILTERS.page;
+};
+
+const parsePageSize = (value: string | null): number => {
+  const size = Number(value);
+  return PAGE_SIZES.includes(size) ? size : DEFAULT_FILTERS.pageSize;
+};
+
+export const parseFilters = (params: URLSearchParams): ListingFilters => ({
+  searchTerm: params.get(PARAMS.searchTerm) ?? DEFAULT_FILTERS.searchTerm,
+  priceRange: parseRange(params.get(PARAMS.priceRange)),
+  areaRange: parseRange(params.get(PARAMS.areaRange)),
+  pricePerSqftRange: parseRange(params.get(PARAMS.pricePerSqftRange)),
+  shape: parseShape(params),
+  changedOnly: params.get(PARAMS.changedOnly) === '1',
+  facets: parseFacets(params),
+  tab: params.get(PARAMS.tab) === 'rent' ? 'rent' : 'sale',
+  community: getCommunityBySlug(params.get(PARAMS.community) ?? '')?.name ?? DEFAULT_FILTERS.community,
+  sort: parseSort(params.get(PARAMS.sort)),
+  page: parsePage(params.get(PARAMS.page)),
+  pageSize: parsePageSize(params.get(PARAMS.pageSize)),
+});
+
+// Only non-default values are written so the default view keeps a clean URL.
+// Params owned by other features are left untouched.
+export const serializeFilters = (filters: ListingFilters, base?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  const set = (key: string, value: string | null) => {
+    if (value === null) params.delete(key);
+    else params.set(key, value);
+  };
+
+  set(PARAMS.searchTerm, filters.searchTerm.trim() ? filters.searchTerm : null);
+  set(PARAMS.priceRange, formatRange(filters.priceRange));
+  set(PARAMS.areaRange, formatRange(filters.areaRange));
+  set(PARAMS.pricePerSqftRange, formatRange(filters.pricePerSqftRange));
+  const { shape } = filters;
+  set(
+    PARAMS.polygon,
+    shape?.kind === 'polygon'
+      ? shape.points.flatMap(point => [formatCoordinate(point.latitude), formatCoordinate(point.longitude)]).join(',')
+      : null
+  );
+  set(
+    PARAMS.radius,
+    shape?.kind === 'radius'
+      ? [formatCoordinate(shape.center.latitude), formatCoordinate(shape.center.longitude), Math.round(shape.radius)].join(',')
+      : null
+  );
+  set(PARAMS.changedOnly, filters.changedOnly ? '1' : null);
+  FACETS.forEach(facet => {
+    params.delete(facet.param);
+    filters.facets[facet.id].forEach(value => params.append(facet.param, value));
+  });
+  set(PARAMS.tab, filters.tab === DEFAULT_FILTERS.tab ? null : filters.tab);
+  set(
+    PARAMS.community,
+    filters.community === DEFAULT_FILTERS.community ? null : getCommunityByName(filters.community)?.slug ?? null
+  );
+  set(PARAMS.sort, filters.sort === DEFAULT_SORT ? null : filters.sort);
+  set(PARAMS.page, filters.page === DEFAULT_FILTERS.page ? null : String(filters.page));
+  set(PARAMS.pageSize, filters.pageSize === DEFAULT_FILTERS.pageSize ? null : String(filters.pageSize));
+
+  return params;
+};
+
+// Price and price per sq ft ranges are picked against one tab's prices, so they only
+// narrow that tab's feed. Everything else means the same for sales and rentals.
+export const getTypeFilters = (filters: ListingFilters, type: ListingType): ListingFilters => {
+  return type === filters.tab ? filters : { ...filters, priceRange: null, pricePerSqftRange: null };
+};
@@ -0,0 +1,179 @@
+import { NO_CHANGE_TIMES, type ListingChangeTimes } from '@/lib/price-history';
+import { getKnownArea, getPricePerSqft } from '@/lib/pricing';
+import type { Property } from '@/types/property';
+
+export type SortOption =
+  | 'featured'
+  | 'price-asc'
+  | 'price-desc'
+  | 'area-desc'
+  | 'area-asc'
+  | 'price-per-sqft-asc'
+  | 'price-per-sqft-desc'
+  | 'newest'
+  | 'price-reduced'
+  | 'recently-changed'
+  | 'title-asc'
+  | 'title-desc'
+  | 'category-asc'
+  | 'category-desc'
+  | 'community-asc'
+  | 'community-desc'
+  | 'agent-asc'
+  | 'agent-desc';
+
+export const DEFAULT_SORT: SortOption = 'featured';
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+  { value: 'area-desc', label: 'Area: largest first' },
+  { value: 'area-asc', label: 'Area: smallest first' },
+  { value: 'price-per-sqft-asc', label: 'Price per sq ft: low to high' },
+  { value: 'price-per-sqft-desc', label: 'Price per sq ft: high to low' },
+  { value: 'newest', label: 'Newest listed' },
+  { value: 'price-reduced', label: 'Recently price-reduced' },
+  { value: 'recently-changed', label: 'Recently changed' },
+];
+
+// Reductions are only known once a refresh has seen a price drop, so until then the
+// reduction sort would just be 'newest' and isn't offered
+export const getSortOptions = (changeTimes: ListingChangeTimes): { value: SortOption; label: string }[] => {
+  const hasReductions = Object.keys(changeTimes.reducedAt).length > 0;
+  return SORT_OPTIONS.filter(option => option.value !== 'price-reduced' || hasReductions);
+};
+
+// Text columns are only sortable from the table headers, so they stay out of the menu
+const TABLE_SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'title-asc', label: 'Title: A to Z' },
+  { value: 'title-desc', label: 'Title: Z to A' },
+  { value: 'category-asc', label: 'Category: A to Z' },
+  { value: 'category-desc', label: 'Category: Z to A' },
+  { value: 'community-asc', label: 'Community: A to Z' },
+  { value: 'community-desc', label: 'Community: Z to A' },
+  { value: 'agent-asc', label: 'Agent: A to Z' },
+  { value: 'agent-desc', label: 'Agent: Z to A' },
+];
+
+const ALL_SORT_OPTIONS = [...SORT_OPTIONS, ...TABLE_SORT_OPTIONS];
+
+export const isSortOption = (value: string | null): value is SortOption => {
+  return ALL_SORT_OPTIONS.some(option => option.value === value);
+};
+
+export const getSortLabel = (sort: SortOption): string => {
+  return ALL_SORT_OPTIONS.find(option => option.value === sort)?.label ?? sort;
+};
+
+// Table columns and the ascending/descending sort each header toggles between
+export type SortColumn = 'title' | 'category' | 'community' | 'area' | 'price' | 'pricePerSqft' | 'agent';
+
+export const COLUMN_SORTS: Record<SortColumn, { asc: SortOption; desc: SortOption }> = {
+  title: { asc: 'title-asc', desc: 'title-desc' },
+  category: { asc: 'category-asc', desc: 'category-desc' },
+  community: { asc: 'community-asc', desc: 'community-desc' },
+  area: { asc: 'area-asc', desc: 'area-desc' },
+  price: { asc: 'price-asc', desc: 'price-desc' },
+  pricePerSqft: { asc: 'price-per-sqft-asc', desc: 'price-per-sqft-desc' },
+  agent: { asc: 'agent-asc', desc: 'agent-desc' },
+};
+
+export const getColumnSortDirection = (column: SortColumn, sort: SortOption): 'asc' | 'desc' | undefined => {
+  if (COLUMN_SORTS[column].asc === sort) return 'asc';
+  if (COLUMN_SORTS[column].desc === sort) return 'desc';
+  return undefined;
+};
+
+// Clicking a header sorts ascending, clicking it again flips the direction
+export const getNextColumnSort = (column: SortColumn, sort: SortOption): SortOption => {
+  return getColumnSortDirection(column, sort) === 'asc' ? COLUMN_SORTS[column].desc : COLUMN_SORTS[column].asc;
+};
+
+type Comparator = (a: Property, b: Property) => number;
+
+// Missing values always sort last, whichever direction is requested
+const compareBy = (getValue: (property: Property) => number | undefined, direction: 1 | -1): Comparator => {
+  return (a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+    if (valueA === undefined && valueB === undefined) return 0;
+    if (valueA === undefined) return 1;
+    if (valueB === undefined) return -1;
+    return (valueA - valueB) * direction;
+  };
+};
+
+// Missing text sorts last too; comparison is case-insensitive
+const compareText = (getValue: (property: Property) => string | undefined, direction: 1 | -1): Comparator => {
+  return (a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+    if (!valueA && !valueB) return 0;
+    if (!valueA) return 1;
+    if (!valueB) return -1;
+    return valueA.localeCompare(valueB, undefined, { sensitivity: 'base' }) * direction;
+  };
+};
+
+const getListedAt = (property: Property) => {
+  return property.listingDate ? new Date(property.listingDate).getTime() : undefined;
+};
+
+const byNewest = compareBy(getListedAt, -1);
+
+const getComparator = (sort: SortOption, changeTimes: ListingChangeTimes): Comparator | undefined => {
+  switch (sort) {
+    case 'price-asc':
+      return compareBy(property => property.price, 1);
+    case 'price-desc':
+      return compareBy(property => property.price, -1);
+    case 'area-desc':
+      return compareBy(getKnownArea, -1);
+    case 'area-asc':
+      return compareBy(getKnownArea, 1);
+    case 'price-per-sqft-asc':
+      return compareBy(getPricePerSqft, 1);
+    case 'price-per-sqft-desc':
+      return compareBy(getPricePerSqft, -1);
+    case 'newest':
+      return byNewest;
+    case 'price-reduced': {
+      // Listings without a known reduction follow, newest first
+      const byReduction = compareBy(property => changeTimes.reducedAt[property.id], -1);
+      return (a, b) => byReduction(a, b) || byNewest(a, b);
+    }
+    case 'recently-changed': {
+      const byChange = compareBy(property => changeTimes.changedAt[property.id], -1);
+      return (a, b) => byChange(a, b) || byNewest(a, b);
+    }
+    case 'title-asc':
+      return compareText(property => property.title, 1);
+    case 'title-desc':
+      return compareText(property => property.title, -1);
+    case 'category-asc':
+      return compareText(property => property.category, 1);
+    case 'category-desc':
+      return compareText(property => property.category, -1);
+    case 'community-asc':
+      return compareText(property => property.community, 1);
+    case 'community-desc':
+      return compareText(property => property.community, -1);
+    case 'agent-asc':
+      return compareText(property => property.agentName, 1);
+    case 'agent-desc':
+      return compareText(property => property.agentName, -1);
+    default:
+      return undefined;
+  }
+};
+
+// Stable sort - 'featured' keeps the feed order
+export const sortProperties = (
+  properties: Property[],
+  sort: SortOption,
+  changeTimes: ListingChangeTimes = NO_CHANGE_TIMES
+): Property[] => {
+  const comparator = getComparator(sort, changeTimes);
+  return comparator ? [...properties].sort(comparator) : properties;
+};
@@ -0,0 +1,64 @@
+import type { ListingType, Property } from '@/types/property';
+
+// Persistent listing snapshots in IndexedDB - lets the page render the last
+// known inventory instantly while the feeds revalidate in the background
+
+const DB_NAME = 'chestertons-listings';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+// Bump whenever the Property shape changes so stale snapshots are ignored
+const SNAPSHOT_VERSION = 4;
+
+export interface ListingsSnapshot {
+  version?: number;
+  type: ListingType;
+  properties: Property[];
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'type' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(SNAPSHOT_STORE, mode).objectStore(SNAPSHOT_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readSnapshot = async (type: ListingType): Promise<ListingsSnapshot | undefined> => {
+  try {
+    const snapshot = await runRequest<ListingsSnapshot | undefined>('readonly', store => store.get(type));
+    return snapshot?.version === SNAPSHOT_VERSION ? snapshot : undefined;
+  } catch (error) {
+    console.warn(`Could not read cached ${type} listings:`, error);
+    return undefined;
+  }
+};
+
+export const writeSnapshot = async (snapshot: ListingsSnapshot): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.put({ ...snapshot, version: SNAPSHOT_VERSION }));
+  } catch (error) {
+    console.warn(`Could not cache ${snapshot.type} listings:`, error);
+  }
+};
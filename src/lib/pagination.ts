@@ -0,0 +1,21 @@
+// Page maths for the paged listing view
+
+export const getPageCount = (total: number, pageSize: number) => Math.max(1, Math.ceil(total / pageSize));
+
+export const paginate = <T>(items: T[], page: number, pageSize: number): T[] => {
+  return items.slice((page - 1) * pageSize, page * pageSize);
+};
+
+// First, last and a window around the current page, with gaps marked as 'ellipsis'
+export const getPageItems = (page: number, pageCount: number, siblings = 1): (number | 'ellipsis')[] => {
+  const pages = new Set([1, pageCount]);
+  for (let candidate = page - siblings; candidate <= page + siblings; candidate++) {
+    if (candidate >= 1 && candidate <= pageCount) pages.add(candidate);
+  }
+
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((current, index) => {
+    const previous = sorted[index - 1];
+    return previous !== undefined && current - previous > 1 ? ['ellipsis' as const, current] : [current];
+  });
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { getChangeTimes, getListingBadges, narrowToChanged, recordSnapshot, type PriceHistory } from '@/lib/price-history';
+import type { Property } from '@/types/property';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const listing = (id: string, price: number): Property => ({
+  id,
+  title: `Office ${id}`,
+  price,
+  area: 1000,
+  bedrooms: 0,
+  community: 'Business Bay',
+  images: [],
+  type: 'sale',
+  propertyType: 'commercial',
+});
+
+const baseline = () => recordSnapshot({}, 'sale', [listing('a', 1000000), listing('b', 2000000)], START);
+
+describe('recordSnapshot', () => {
+  it('treats the first load of a feed as the baseline, not as new listings', () => {
+    const history = baseline();
+
+    expect(history.a).toEqual({ type: 'sale', appearedAt: undefined, prices: [{ price: 1000000, at: START }] });
+    expect(getChangeTimes(history)).toEqual({ reducedAt: {}, changedAt: {} });
+  });
+
+  it('marks listings added after the baseline as new', () => {
+    const now = START + DAY;
+    const history = recordSnapshot(baseline(), 'sale', [listing('a', 1000000), listing('b', 2000000), listing('c', 500000)], now);
+
+    expect(history.c.appearedAt).toBe(now);
+    expect(getListingBadges(history.c, now).isNew).toBe(true);
+    expect(getChangeTimes(history).changedAt).toEqual({ c: now });
+  });
+
+  it('records a repriced listing and when it was reduced', () => {
+    const now = START + DAY;
+    const history = recordSnapshot(baseline(), 'sale', [listing('a', 900000), listing('b', 2000000)], now);
+
+    expect(history.a.prices).toEqual([
+      { price: 1000000, at: START },
+      { price: 900000, at: now },
+    ]);
+    expect(getListingBadges(history.a, now).reduction).toMatchObject({ from: 1000000, to: 900000, ratio: -0.1 });
+    expect(getChangeTimes(history)).toEqual({ reducedAt: { a: now }, changedAt: { a: now } });
+  });
+
+  it('keeps the last reduction when the price later goes back up', () => {
+    const reduced = recordSnapshot(baseline(), 'sale', [listing('a', 900000), listing('b', 2000000)], START + DAY);
+    const raised = recordSnapshot(reduced, 'sale', [listing('a', 950000), listing('b', 2000000)], START + 2 * DAY);
+
+    expect(getChangeTimes(raised)).toEqual({ reducedAt: { a: START + DAY }, changedAt: { a: START + 2 * DAY } });
+  });
+
+  it('returns the same history when nothing changed', () => {
+    const history = baseline();
+    expect(recordSnapshot(history, 'sale', [listing('b', 2000000), listing('a', 1000000)], START + DAY)).toBe(history);
+  });
+
+  it('marks listings missing from the feed as removed', () => {
+    const now = START + DAY;
+    const history = recordSnapshot(baseline(), 'sale', [listing('a', 1000000)], now);
+
+    expect(history.b.removedAt).toBe(now);
+    expect(history.a.removedAt).toBeUndefined();
+  });
+
+  it('leaves the other feed alone', () => {
+    const history = recordSnapshot(baseline(), 'rent', [{ ...listing('r', 120000), type: 'rent' }], START + DAY);
+
+    expect(history.a.removedAt).toBeUndefined();
+    expect(history.r.appearedAt).toBeUndefined();
+  });
+
+  it('treats a relisted listing as new again', () => {
+    const removed = recordSnapshot(baseline(), 'sale', [listing('a', 1000000)], START + DAY);
+    const now = START + 2 * DAY;
+    const relisted = recordSnapshot(removed, 'sale', [listing('a', 1000000), listing('b', 2000000)], now);
+
+    expect(relisted.b.removedAt).toBeUndefined();
+    expect(relisted.b.appearedAt).toBe(now);
+    expect(relisted.b.prices).toHaveLength(1);
+  });
+
+  it('forgets removed listings after 90 days', () => {
+    const removed = recordSnapshot(baseline(), 'sale', [listing('a', 1000000)], START + DAY);
+    const kept = recordSnapshot(removed, 'sale', [listing('a', 1000000)], START + 90 * DAY);
+    const forgotten = recordSnapshot(removed, 'sale', [listing('a', 1000000)], START + 92 * DAY);
+
+    expect(kept.b).toBeDefined();
+    expect(forgotten.b).toBeUndefined();
+    expect(forgotten.a).toBeDefined();
+  });
+});
+
+describe('narrowToChanged', () => {
+  it('keeps only recently changed listings when the filter is on', () => {
+    const properties = [listing('a', 1000000), listing('b', 2000000)];
+    const history: PriceHistory = recordSnapshot(baseline(), 'sale', [listing('a', 900000), listing('b', 2000000)], Date.now());
+    const changeTimes = getChangeTimes(history);
+
+    expect(narrowToChanged(properties, true, changeTimes).map(property => property.id)).toEqual(['a']);
+    expect(narrowToChanged(properties, false, changeTimes)).toBe(properties);
+  });
+});
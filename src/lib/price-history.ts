@@ -0,0 +1,161 @@
+import type { ListingType, Property } from '@/types/property';
+
+// Price and availability history, built up in this browser by comparing each feed
+// refresh with the previous one. Keyed by stable property ID.
+
+export interface PricePoint {
+  price: number;
+  /** ms timestamp of the refresh that first saw this price */
+  at: number;
+}
+
+export interface ListingHistory {
+  type: ListingType;
+  /** When the listing (re)appeared - unset for listings already there when tracking began */
+  appearedAt?: number;
+  /** Set while the listing is missing from its feed */
+  removedAt?: number;
+  /** Asking price each time it changed, oldest first */
+  prices: PricePoint[];
+}
+
+export type PriceHistory = Record<string, ListingHistory>;
+
+export interface PriceChange {
+  from: number;
+  to: number;
+  at: number;
+  /** Relative change, e.g. -0.05 for a 5% reduction */
+  ratio: number;
+}
+
+// ms timestamps of each listing's latest price reduction and latest change of any kind
+export interface ListingChangeTimes {
+  reducedAt: Record<string, number>;
+  changedAt: Record<string, number>;
+}
+
+export const NO_CHANGE_TIMES: ListingChangeTimes = { reducedAt: {}, changedAt: {} };
+
+// How long "New" and "Price reduced" badges stay up, and what counts as recently changed
+export const RECENT_CHANGE_DAYS = 14;
+const RECENT_CHANGE_MS = RECENT_CHANGE_DAYS * 24 * 60 * 60 * 1000;
+// Removed listings are forgotten after this long
+const REMOVED_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Fold one complete feed into the history. The very first snapshot of a feed only sets
+// the baseline, so everything already listed doesn't show up as new. Returns the same
+// history object when nothing changed.
+export const recordSnapshot = (
+  history: PriceHistory,
+  type: ListingType,
+  properties: Property[],
+  now = Date.now()
+): PriceHistory => {
+  const next: PriceHistory = { ...history };
+  const isBaseline = !Object.values(history).some(entry => entry.type === type);
+  const seen = new Set<string>();
+  let changed = false;
+
+  properties.forEach(property => {
+    seen.add(property.id);
+    const entry = history[property.id];
+
+    if (!entry) {
+      next[property.id] = {
+        type,
+        appearedAt: isBaseline ? undefined : now,
+        prices: [{ price: property.price, at: now }],
+      };
+      changed = true;
+      return;
+    }
+
+    const latest = entry.prices[entry.prices.length - 1];
+    const isRepriced = latest?.price !== property.price;
+    const isRelisted = entry.removedAt !== undefined;
+    if (!isRepriced && !isRelisted) return;
+
+    next[property.id] = {
+      ...entry,
+      appearedAt: isRelisted ? now : entry.appearedAt,
+      removedAt: undefined,
+      prices: isRepriced ? [...entry.prices, { price: property.price, at: now }] : entry.prices,
+    };
+    changed = true;
+  });
+
+  Object.entries(history).forEach(([id, entry]) => {
+    if (entry.type !== type || seen.has(id)) return;
+
+    if (entry.removedAt === undefined) {
+      next[id] = { ...entry, removedAt: now };
+      changed = true;
+    } else if (now - entry.removedAt > REMOVED_RETENTION_MS) {
+      delete next[id];
+      changed = true;
+    }
+  });
+
+  return changed ? next : history;
+};
+
+export const isRecent = (timestamp: number | undefined, now = Date.now()): boolean => {
+  return timestamp !== undefined && now - timestamp <= RECENT_CHANGE_MS;
+};
+
+export const isRecentlyChanged = (id: string, changeTimes: ListingChangeTimes, now = Date.now()): boolean => {
+  return isRecent(changeTimes.changedAt[id], now);
+};
+
+// The "recently changed" filter narrows a feed before any other filter applies, so
+// every count and chart built from it agrees
+export const narrowToChanged = (
+  properties: Property[],
+  changedOnly: boolean,
+  changeTimes: ListingChangeTimes
+): Property[] => {
+  return changedOnly ? properties.filter(property => isRecentlyChanged(property.id, changeTimes)) : properties;
+};
+
+export const getLatestPriceChange = (entry: ListingHistory | undefined): PriceChange | undefined => {
+  if (!entry || entry.prices.length < 2) return undefined;
+
+  const previous = entry.prices[entry.prices.length - 2];
+  const latest = entry.prices[entry.prices.length - 1];
+  return {
+    from: previous.price,
+    to: latest.price,
+    at: latest.at,
+    ratio: previous.price ? (latest.price - previous.price) / previous.price : 0,
+  };
+};
+
+// Badge state for a card: newly listed and/or recently reduced
+export const getListingBadges = (entry: ListingHistory | undefined, now = Date.now()) => {
+  const change = getLatestPriceChange(entry);
+  return {
+    isNew: isRecent(entry?.appearedAt, now),
+    reduction: change && change.ratio < 0 && isRecent(change.at, now) ? change : undefined,
+  };
+};
+
+export const getChangeTimes = (history: PriceHistory): ListingChangeTimes => {
+  const times: ListingChangeTimes = { reducedAt: {}, changedAt: {} };
+
+  Object.entries(history).forEach(([id, entry]) => {
+    const change = getLatestPriceChange(entry);
+    const latest = Math.max(entry.appearedAt ?? 0, change?.at ?? 0);
+    if (latest > 0) times.changedAt[id] = latest;
+
+    // Most recent price that undercut the one before it
+    for (let i = entry.prices.length - 1; i > 0; i--) {
+      if (entry.prices[i].price < entry.prices[i - 1].price) {
+        times.reducedAt[id] = entry.prices[i].at;
+        break;
+      }
+    }
+  });
+
+  return times;
+};
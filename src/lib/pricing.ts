@@ -0,0 +1,20 @@
+import type { Property } from '@/types/property';
+
+// Area in sq ft - unknown when the feed gave none and `area` is only its placeholder
+export const getKnownArea = (property: Property): number | undefined => {
+  return property.isAreaEstimated || !property.area ? undefined : property.area;
+};
+
+// Price per sq ft - rent listings are already quoted per year, so this is the annual rate
+export const getPricePerSqft = (property: Property): number | undefined => {
+  const area = getKnownArea(property);
+  if (!property.price || !area) return undefined;
+  return property.price / area;
+};
+
+// Mean price per sq ft across the listings that have one
+export const getAveragePricePerSqft = (properties: Property[]): number | undefined => {
+  const values = properties.map(getPricePerSqft).filter((value): value is number => value !== undefined);
+  if (values.length === 0) return undefined;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
@@ -0,0 +1,32 @@
+import { formatDate, formatPrice, formatPricePerSqft, formatPropertyArea } from '@/lib/format';
+import { getPricePerSqft } from '@/lib/pricing';
+import type { Property } from '@/types/property';
+
+export interface PropertyAttribute {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}
+
+// Label/value rows for every attribute the feed provided - missing ones are skipped
+export const getPropertyAttributes = (property: Property): PropertyAttribute[] => {
+  const pricePerSqft = getPricePerSqft(property);
+  const attributes: (PropertyAttribute | false | undefined | '')[] = [
+    { label: 'Price', value: `${formatPrice(property.price)}${property.type === 'rent' ? '/year' : ''}`, highlight: true },
+    { label: 'Area', value: formatPropertyArea(property) },
+    pricePerSqft !== undefined && { label: 'Price per sq ft', value: formatPricePerSqft(pricePerSqft, property.type) },
+    property.category && { label: 'Category', value: property.category },
+    { label: 'Community', value: property.community },
+    property.buildingName && { label: 'Building', value: property.buildingName },
+    property.floor && { label: 'Floor', value: property.floor },
+    property.parkingSpaces !== undefined && { label: 'Parking', value: `${property.parkingSpaces} spaces` },
+    property.fitOutStatus && { label: 'Fit-out', value: property.fitOutStatus },
+    property.serviceCharge !== undefined && { label: 'Service charge', value: `AED ${property.serviceCharge.toLocaleString()}/sq ft` },
+    property.view && { label: 'View', value: property.view },
+    property.permitNumber && { label: 'Permit no.', value: property.permitNumber },
+    property.listingDate && { label: 'Listed', value: formatDate(property.listingDate) },
+    property.agentName && { label: 'Listed by', value: property.agentName },
+  ];
+
+  return attributes.filter(Boolean) as PropertyAttribute[];
+};
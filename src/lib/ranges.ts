@@ -0,0 +1,60 @@
+import type { NumericRange } from '@/lib/listing-filters';
+
+// Helpers for the data-driven range filters. A `null` range means "no limit".
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Roughly 100 slider steps across the span, rounded to a power of ten
+export const getRangeStep = ([min, max]: NumericRange): number => {
+  const span = max - min;
+  if (span <= 0) return 1;
+  return Math.max(1, 10 ** Math.floor(Math.log10(span) - 2));
+};
+
+// Data bounds widened to whole steps so the extremes are always selectable
+export const getRangeBounds = (values: number[]): NumericRange => {
+  if (values.length === 0) return [0, 0];
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const step = getRangeStep([min, max]);
+  return [Math.floor(min / step) * step, Math.ceil(max / step) * step];
+};
+
+export const clampRange = (range: NumericRange, [min, max]: NumericRange): NumericRange => {
+  const clamp = (value: number) => Math.min(Math.max(value, min), max);
+  return [clamp(range[0]), clamp(range[1])];
+};
+
+// A selection covering the whole data span is no filter at all, so newly listed
+// outliers aren't silently excluded
+export const toRangeFilter = (range: NumericRange, bounds: NumericRange): NumericRange | null => {
+  const sorted: NumericRange = [Math.min(...range), Math.max(...range)];
+  return sorted[0] <= bounds[0] && sorted[1] >= bounds[1] ? null : sorted;
+};
+
+export const isInRange = (value: number, range: NumericRange | null): boolean => {
+  return range === null || (value >= range[0] && value <= range[1]);
+};
+
+export const buildHistogram = (values: number[], [min, max]: NumericRange, binCount = 24): HistogramBin[] => {
+  if (values.length === 0 || max <= min) return [];
+
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+
+  values.forEach(value => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor((value - min) / width)));
+    bins[index].count += 1;
+  });
+
+  return bins;
+};
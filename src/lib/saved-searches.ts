@@ -0,0 +1,38 @@
+import { filterProperties } from '@/lib/filter-properties';
+import { DEFAULT_FILTERS, parseFilters, serializeFilters, type ListingFilters } from '@/lib/listing-filters';
+import type { ListingType, Property } from '@/types/property';
+
+// A named filter set, re-run against every feed refresh. "New" means a stable ID
+// that matches now but wasn't among the matches the user last looked at.
+export interface SavedSearch {
+  id: string;
+  name: string;
+  /** Query string of the saved filters, as used on the listings page */
+  query: string;
+  createdAt: string;
+  /** IDs matching when the user last opened the search */
+  seenIds: string[];
+  /** Matches that appeared since - cleared once the search is opened */
+  newIds: string[];
+}
+
+// Paging and the community tab are view state, not part of what was searched for.
+// "Recently changed" depends on this browser's price history, so it isn't saved either.
+export const toSearchQuery = (filters: ListingFilters): string => {
+  return serializeFilters({
+    ...filters,
+    changedOnly: false,
+    page: DEFAULT_FILTERS.page,
+    pageSize: DEFAULT_FILTERS.pageSize,
+  }).toString();
+};
+
+export const getSearchFilters = (search: SavedSearch): ListingFilters => {
+  return parseFilters(new URLSearchParams(search.query));
+};
+
+export const getSearchMatches = (search: SavedSearch, properties: Record<ListingType, Property[] | undefined>) => {
+  const filters = getSearchFilters(search);
+  const feed = properties[filters.tab];
+  return feed ? filterProperties(feed, filters).map(property => property.id) : undefined;
+};
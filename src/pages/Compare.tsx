@@ -0,0 +1,138 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Printer, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import SiteHeader from '@/components/listings/SiteHeader';
+import { MAX_COMPARE } from '@/hooks/use-compare';
+import { usePropertiesById } from '@/hooks/use-listings';
+import { COMPARE_ROWS, getBestInRow, rowHasDifferences } from '@/lib/compare';
+import { getPropertyPath, parseIdList } from '@/lib/links';
+import { cn } from '@/lib/utils';
+
+// Fallback image used when a listing image fails to load
+import heroProperty1 from '@/assets/react.svg';
+
+// Side-by-side comparison of up to four listings from /compare?ids=a,b,c
+const Compare = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const ids = useMemo(() => parseIdList(searchParams.get('ids')).slice(0, MAX_COMPARE), [searchParams]);
+  const { entries, isLoading } = usePropertiesById(ids);
+  const properties = entries.flatMap(entry => (entry.property ? [entry.property] : []));
+
+  const removeFromComparison = (id: string) => {
+    const remaining = ids.filter(item => item !== id);
+    setSearchParams(remaining.length > 0 ? { ids: remaining.join(',') } : {});
+  };
+
+  const renderTable = () => {
+    if (ids.length === 0) {
+      return (
+        <div className="text-center py-12 text-muted-foreground text-lg">
+          Tick "Compare" on up to {MAX_COMPARE} properties to see them side by side.
+        </div>
+      );
+    }
+
+    return (
+      <div className="rounded-lg border-2 bg-white overflow-x-auto print:border-0">
+        <Table className="table-fixed">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-40" />
+              {entries.map(entry => (
+                <TableHead key={entry.id} className="align-top py-4 h-auto">
+                  {entry.property ? (
+                    <div className="space-y-2">
+                      <img
+                        src={entry.property.images[0]}
+                        alt={entry.property.title}
+                        className="w-full h-28 object-cover rounded print:h-20"
+                        onError={(e) => {
+                          (e.target as HTMLImageElement).src = heroProperty1;
+                        }}
+                      />
+                      <Link to={getPropertyPath(entry.id)} className="block font-semibold text-foreground hover:text-primary line-clamp-2">
+                        {entry.property.title}
+                      </Link>
+                    </div>
+                  ) : entry.isMissing ? (
+                    <Badge variant="destructive">No longer listed</Badge>
+                  ) : (
+                    <Skeleton className="w-full h-28" />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mt-2 px-2 print:hidden"
+                    onClick={() => removeFromComparison(entry.id)}
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Remove
+                  </Button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {COMPARE_ROWS.map(row => {
+              const differs = rowHasDifferences(row, properties);
+              const best = getBestInRow(row, properties);
+
+              return (
+                <TableRow key={row.label} className={cn(differs && 'bg-amber-50 hover:bg-amber-100/70 print:bg-transparent')}>
+                  <TableCell className="font-medium text-muted-foreground">
+                    {row.label}
+                    {differs && <span className="sr-only"> (differs)</span>}
+                  </TableCell>
+                  {entries.map(entry => (
+                    <TableCell
+                      key={entry.id}
+                      className={cn(best.has(entry.id) && 'font-semibold text-primary')}
+                    >
+                      {entry.property ? row.format(entry.property) ?? '-' : ''}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle print:bg-white">
+      <div className="print:hidden">
+        <SiteHeader />
+      </div>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6 print:hidden">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to listings
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => window.print()} disabled={properties.length === 0}>
+            <Printer className="h-4 w-4 mr-1" />
+            Print
+          </Button>
+        </div>
+
+        <h1 className="text-3xl font-bold text-foreground mb-2">Compare properties</h1>
+        <p className="text-muted-foreground mb-6 print:mb-4">
+          Highlighted rows differ between properties; the best value in each is shown in bold.
+          {isLoading && ' Loading listings...'}
+        </p>
+
+        {renderTable()}
+      </div>
+    </div>
+  );
+};
+
+export default Compare;
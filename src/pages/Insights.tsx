@@ -0,0 +1,287 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, Label, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import FacetSidebar from '@/components/listings/FacetSidebar';
+import SiteHeader from '@/components/listings/SiteHeader';
+import { useListingFilters } from '@/hooks/use-listing-filters';
+import { useRentListings, useSaleListings } from '@/hooks/use-listings';
+import { usePriceHistory } from '@/hooks/use-price-history';
+import { formatPrice, formatPricePerSqft } from '@/lib/format';
+import {
+  filterInventory,
+  getGroupInsights,
+  getInventoryFacetOptions,
+  getMedianPricePerSqft,
+  getPriceDistribution,
+  type InsightGroup,
+} from '@/lib/insights';
+import { RECENT_CHANGE_DAYS, narrowToChanged } from '@/lib/price-history';
+import type { HistogramBin } from '@/lib/ranges';
+import type { ListingType } from '@/types/property';
+
+const chartConfig = {
+  sale: { label: 'For sale', color: 'hsl(var(--primary))' },
+  rent: { label: 'For rent', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+const inventoryConfig = {
+  saleCount: chartConfig.sale,
+  rentCount: chartConfig.rent,
+} satisfies ChartConfig;
+
+// Axis ticks - AED 1,250,000 reads as 1.3M
+const formatCompact = (value: number) => {
+  return value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+};
+
+const ChartCard = ({ title, description, children }: { title: string; description?: string; children: ReactNode }) => (
+  <Card className="border-2">
+    <CardHeader className="pb-2">
+      <CardTitle className="text-lg">{title}</CardTitle>
+      {description && <CardDescription>{description}</CardDescription>}
+    </CardHeader>
+    <CardContent>{children}</CardContent>
+  </Card>
+);
+
+const EmptyChart = () => (
+  <div className="flex h-64 items-center justify-center text-sm text-muted-foreground">
+    No listings match the current filters
+  </div>
+);
+
+const StatCard = ({ label, value }: { label: string; value: string }) => (
+  <Card className="border-2">
+    <CardContent className="p-4">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-bold text-foreground tabular-nums">{value}</div>
+    </CardContent>
+  </Card>
+);
+
+const DistributionChart = ({ bins, type }: { bins: HistogramBin[]; type: ListingType }) => {
+  if (bins.length === 0) return <EmptyChart />;
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <BarChart data={bins} barCategoryGap={1}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="start" tickFormatter={formatCompact} tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const bin = payload?.[0]?.payload as HistogramBin | undefined;
+                return bin ? `${formatPrice(Math.round(bin.start))} - ${formatPrice(Math.round(bin.end))}` : null;
+              }}
+            />
+          }
+        />
+        <Bar dataKey="count" name={type} fill={`var(--color-${type})`} radius={[2, 2, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+// Market overview of the commercial inventory, narrowed by the same URL filters as the
+// listings page so the two can be switched between without losing the search
+const Insights = () => {
+  const location = useLocation();
+  const { filters, toggleFacetValue, clearFacets } = useListingFilters();
+  const [group, setGroup] = useState<InsightGroup>('community');
+
+  const salesQuery = useSaleListings();
+  const rentQuery = useRentListings();
+  const salesProperties = salesQuery.data ?? salesQuery.partialData;
+  const rentProperties = rentQuery.data ?? rentQuery.partialData;
+  const isLoading = salesQuery.isLoading || rentQuery.isLoading;
+
+  // Same "recently changed" narrowing as the listings page
+  const { changeTimes } = usePriceHistory();
+  const feeds = useMemo(() => ({
+    sale: narrowToChanged(salesProperties, filters.changedOnly, changeTimes),
+    rent: narrowToChanged(rentProperties, filters.changedOnly, changeTimes),
+  }), [salesProperties, rentProperties, filters.changedOnly, changeTimes]);
+  const inventory = useMemo(() => filterInventory(feeds, filters), [feeds, filters]);
+  const facetOptions = useMemo(() => getInventoryFacetOptions(feeds, filters), [feeds, filters]);
+  const groups = useMemo(() => getGroupInsights(inventory, group), [inventory, group]);
+  const saleDistribution = useMemo(() => getPriceDistribution(inventory.sale), [inventory.sale]);
+  const rentDistribution = useMemo(() => getPriceDistribution(inventory.rent), [inventory.rent]);
+
+  const saleMedian = getMedianPricePerSqft(inventory.sale);
+  const rentMedian = getMedianPricePerSqft(inventory.rent);
+  const total = inventory.sale.length + inventory.rent.length;
+  const split = [
+    { type: 'sale', count: inventory.sale.length, fill: 'var(--color-sale)' },
+    { type: 'rent', count: inventory.rent.length, fill: 'var(--color-rent)' },
+  ];
+  const groupLabel = group === 'community' ? 'community' : 'category';
+
+  return (
+    <SidebarProvider>
+      <FacetSidebar
+        options={facetOptions}
+        selections={filters.facets}
+        onToggle={toggleFacetValue}
+        onClear={clearFacets}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-gradient-subtle">
+          <SiteHeader />
+          <div className="container mx-auto px-4 py-8 space-y-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <SidebarTrigger className="h-8 w-8" aria-label="Toggle filter sidebar" />
+                <Button variant="ghost" size="sm" asChild>
+                  <Link to={{ pathname: '/', search: location.search }}>
+                    <ArrowLeft className="h-4 w-4 mr-1" />
+                    Back to listings
+                  </Link>
+                </Button>
+              </div>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={group}
+                onValueChange={(value) => value && setGroup(value as InsightGroup)}
+                aria-label="Group by"
+              >
+                <ToggleGroupItem value="community">By community</ToggleGroupItem>
+                <ToggleGroupItem value="category">By category</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Market insights</h1>
+              <p className="text-muted-foreground">
+                Commercial inventory matching your current search. Price ranges apply to the
+                {filters.tab === 'sale' ? ' sales ' : ' rentals '}
+                figures only; rents are annual.
+                {filters.changedOnly && ` Only listings new or repriced in the last ${RECENT_CHANGE_DAYS} days are included.`}
+                {isLoading && (
+                  <span className="inline-flex items-center ml-2">
+                    <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                    Loading listings...
+                  </span>
+                )}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              <StatCard label="Listings" value={total.toLocaleString()} />
+              <StatCard label="For sale" value={inventory.sale.length.toLocaleString()} />
+              <StatCard label="For rent" value={inventory.rent.length.toLocaleString()} />
+              <StatCard
+                label="Median sale price / sq ft"
+                value={saleMedian !== undefined ? formatPricePerSqft(saleMedian, 'sale') : '-'}
+              />
+              <StatCard
+                label="Median rent / sq ft"
+                value={rentMedian !== undefined ? formatPricePerSqft(rentMedian, 'rent') : '-'}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <ChartCard title={`Inventory by ${groupLabel}`}>
+                  {groups.length === 0 ? <EmptyChart /> : (
+                    <ChartContainer config={inventoryConfig} className="aspect-auto h-64 w-full">
+                      <BarChart data={groups}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} tick={{ fontSize: 11 }} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="saleCount" stackId="inventory" fill="var(--color-saleCount)" />
+                        <Bar dataKey="rentCount" stackId="inventory" fill="var(--color-rentCount)" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </ChartCard>
+              </div>
+
+              <ChartCard title="Sale vs rent">
+                {total === 0 ? <EmptyChart /> : (
+                  <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="type" hideLabel />} />
+                      <Pie data={split} dataKey="count" nameKey="type" innerRadius={60} strokeWidth={4}>
+                        {split.map(slice => <Cell key={slice.type} fill={slice.fill} />)}
+                        <Label
+                          position="center"
+                          className="fill-foreground text-2xl font-bold"
+                          value={total.toLocaleString()}
+                        />
+                      </Pie>
+                      <ChartLegend content={<ChartLegendContent nameKey="type" />} />
+                    </PieChart>
+                  </ChartContainer>
+                )}
+              </ChartCard>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {(['sale', 'rent'] as const).map(type => {
+                const key = type === 'sale' ? 'saleMedianPricePerSqft' : 'rentMedianPricePerSqft';
+                const data = groups.filter(row => row[key] !== undefined);
+                return (
+                  <ChartCard
+                    key={type}
+                    title={`Median ${type === 'sale' ? 'sale price' : 'rent'} per sq ft by ${groupLabel}`}
+                    description={type === 'rent' ? 'Annual rent' : undefined}
+                  >
+                    {data.length === 0 ? <EmptyChart /> : (
+                      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                        <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+                          <CartesianGrid horizontal={false} />
+                          <XAxis type="number" tickFormatter={formatCompact} tickLine={false} axisLine={false} />
+                          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} tick={{ fontSize: 11 }} />
+                          <ChartTooltip
+                            cursor={false}
+                            content={
+                              <ChartTooltipContent
+                                formatter={(value) => formatPricePerSqft(Number(value), type)}
+                              />
+                            }
+                          />
+                          <Bar dataKey={key} name={type} fill={`var(--color-${type})`} radius={[0, 4, 4, 0]} />
+                        </BarChart>
+                      </ChartContainer>
+                    )}
+                  </ChartCard>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ChartCard title="Sale price distribution" description="Number of listings by asking price">
+                <DistributionChart bins={saleDistribution} type="sale" />
+              </ChartCard>
+              <ChartCard title="Rent distribution" description="Number of listings by annual rent">
+                <DistributionChart bins={rentDistribution} type="rent" />
+              </ChartCard>
+            </div>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default Insights;
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Link2, Loader2, Mail, MapPin, Square, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useProperty } from '@/hooks/use-listings';
+import { usePriceHistory } from '@/hooks/use-price-history';
+import EnquiryForm from '@/components/listings/EnquiryForm';
+import FavouriteButton from '@/components/listings/FavouriteButton';
+import PriceChangeBadges from '@/components/listings/PriceChangeBadges';
+import PriceHistoryChart from '@/components/listings/PriceHistoryChart';
+import PropertyAttributes from '@/components/listings/PropertyAttributes';
+import SiteHeader from '@/components/listings/SiteHeader';
+import { formatDate, formatPrice, formatPricePerSqft, formatPropertyArea } from '@/lib/format';
+import { getPricePerSqft } from '@/lib/pricing';
+import { getPropertyUrl } from '@/lib/links';
+
+// Fallback image used when a listing image fails to load
+import heroProperty1 from '@/assets/react.svg';
+
+const BackLink = () => (
+  <Button variant="ghost" size="sm" asChild className="mb-6">
+    <Link to="/">
+      <ArrowLeft className="h-4 w-4 mr-1" />
+      Back to listings
+    </Link>
+  </Button>
+);
+
+const PropertyDetailSkeleton = () => (
+  <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+    <div className="lg:col-span-2 space-y-4">
+      <Skeleton className="w-full h-96 rounded-lg" />
+      <Skeleton className="h-8 w-2/3" />
+      <Skeleton className="h-6 w-1/3" />
+    </div>
+    <Skeleton className="h-96 w-full rounded-lg" />
+  </div>
+);
+
+const PropertyDetail = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { property, isLoading, error, refetch } = useProperty(id);
+  const { history } = usePriceHistory();
+  const listingHistory = history[id];
+  const { toast } = useToast();
+  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getPropertyUrl(id));
+      toast({ title: "Link Copied", description: "Share it with your client to open this property directly." });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <PropertyDetailSkeleton />;
+    }
+
+    if (error) {
+      return (
+        <div className="text-center py-12">
+          <div className="text-muted-foreground text-lg mb-4">
+            Failed to load this property. Please try again.
+          </div>
+          <Button onClick={() => refetch()}>Try Again</Button>
+        </div>
+      );
+    }
+
+    if (!property) {
+      return (
+        <div className="text-center py-12">
+          <h1 className="text-3xl font-bold mb-4">Property no longer available</h1>
+          <p className="text-muted-foreground text-lg mb-6">
+            This listing has been let, sold or withdrawn. Browse our current commercial properties instead.
+          </p>
+          {listingHistory?.removedAt && (
+            <p className="text-sm text-muted-foreground -mt-4 mb-6">
+              Removed from the market on {formatDate(new Date(listingHistory.removedAt).toISOString())}
+            </p>
+          )}
+          <Button asChild className="bg-gradient-purple">
+            <Link to="/">View all listings</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    const pricePerSqft = getPricePerSqft(property);
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Gallery */}
+          <Carousel className="w-full">
+            <CarouselContent>
+              {property.images.map((image, index) => (
+                <CarouselItem key={`${image}-${index}`}>
+                  <img
+                    src={failedImages.has(image) ? heroProperty1 : image}
+                    alt={`${property.title} - image ${index + 1}`}
+                    loading={index === 0 ? 'eager' : 'lazy'}
+                    className="w-full h-96 object-cover rounded-lg"
+                    onError={() => setFailedImages(prev => new Set(prev).add(image))}
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {property.images.length > 1 && (
+              <>
+                <CarouselPrevious className="left-4" />
+                <CarouselNext className="right-4" />
+              </>
+            )}
+          </Carousel>
+
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <PriceChangeBadges history={listingHistory} className="mb-2" />
+              <h1 className="text-3xl font-bold text-foreground mb-2">{property.title}</h1>
+              <div className="flex flex-wrap items-center gap-4 text-muted-foreground">
+                <span className="flex items-center"><MapPin className="h-4 w-4 mr-1" />{property.community}</span>
+                <span className="flex items-center"><Square className="h-4 w-4 mr-1" />{formatPropertyArea(property)}</span>
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-3xl font-bold text-primary">{formatPrice(property.price)}</div>
+              {property.type === 'rent' && <div className="text-sm text-muted-foreground">per year</div>}
+              {pricePerSqft !== undefined && (
+                <div className="text-sm text-muted-foreground">{formatPricePerSqft(pricePerSqft, property.type)}</div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <FavouriteButton propertyId={property.id} showLabel />
+            <Button variant="outline" size="sm" onClick={copyLink}>
+              <Link2 className="h-4 w-4 mr-1" />
+              Copy link
+            </Button>
+          </div>
+
+          {property.description && (
+            <Card className="bg-gradient-card shadow-card border-2">
+              <CardContent className="p-6">
+                <h2 className="text-xl font-semibold mb-4">Description</h2>
+                <p className="text-muted-foreground whitespace-pre-line">{property.description}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="bg-gradient-card shadow-card border-2">
+            <CardContent className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Property details</h2>
+              <PropertyAttributes property={property} />
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-card border-2">
+            <CardContent className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Price history</h2>
+              <PriceHistoryChart history={listingHistory} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Agent */}
+          <Card className="bg-gradient-card shadow-card border-2">
+            <CardContent className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Your agent</h2>
+              <div className="flex items-center mb-2">
+                <User className="h-4 w-4 mr-2 text-primary" />
+                <span className="font-medium">{property.agentName || 'Chestertons Agent'}</span>
+              </div>
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Mail className="h-4 w-4 mr-2" />
+                Send an enquiry below and we'll be in touch
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Enquiry */}
+          <Card className="bg-gradient-card shadow-card border-2">
+            <CardContent className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Enquire about this property</h2>
+              <EnquiryForm property={property} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <SiteHeader />
+      <div className="container mx-auto px-4 py-8">
+        <BackLink />
+        {renderContent()}
+      </div>
+      {isLoading && (
+        <div className="fixed top-4 right-4 z-50">
+          <Card className="p-4 shadow-lg border-2 border-primary bg-white">
+            <div className="flex items-center space-x-2">
+              <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              <span className="text-sm font-medium">Loading property...</span>
+            </div>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PropertyDetail;
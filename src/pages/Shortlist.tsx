@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Heart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import SiteHeader from '@/components/listings/SiteHeader';
+import ShortlistItem from '@/components/listings/ShortlistItem';
+import { useFavourites } from '@/hooks/use-favourites';
+import { usePropertiesById } from '@/hooks/use-listings';
+import { useToast } from '@/hooks/use-toast';
+import { parseIdList } from '@/lib/links';
+
+// A shortlist opened from a shared link (?ids=...), or the visitor's own when there is none
+const Shortlist = () => {
+  const [searchParams] = useSearchParams();
+  const sharedIds = useMemo(() => parseIdList(searchParams.get('ids')), [searchParams]);
+  const { favouriteIds, addFavourites } = useFavourites();
+  const isShared = sharedIds.length > 0;
+  const ids = isShared ? sharedIds : favouriteIds;
+  const { entries } = usePropertiesById(ids);
+  const { toast } = useToast();
+
+  const missingCount = entries.filter(entry => entry.isMissing).length;
+  const notYetSaved = sharedIds.filter(id => !favouriteIds.includes(id));
+
+  const saveShared = () => {
+    addFavourites(notYetSaved);
+    toast({ title: "Shortlist Saved", description: `${notYetSaved.length} properties added to your shortlist.` });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-subtle">
+      <SiteHeader />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" size="sm" asChild className="mb-6">
+          <Link to="/">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to listings
+          </Link>
+        </Button>
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{isShared ? 'Shared shortlist' : 'Your shortlist'}</h1>
+            <p className="text-muted-foreground">
+              {ids.length} {ids.length === 1 ? 'property' : 'properties'}
+              {missingCount > 0 && ` · ${missingCount} no longer listed`}
+            </p>
+          </div>
+          {isShared && notYetSaved.length > 0 && (
+            <Button onClick={saveShared} className="bg-gradient-purple">
+              <Heart className="h-4 w-4 mr-1" />
+              Save to my shortlist
+            </Button>
+          )}
+        </div>
+
+        {ids.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground text-lg">
+            Your shortlist is empty. Tap the heart on any property to save it.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <ShortlistItem key={entry.id} entry={entry} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Shortlist;
@@ -1,605 +1,169 @@
-import React, { useState, useEffect, useMemo, memo, useCallback } from 'react';
-import { Search, Filter, MapPin, Bed, Square, ChevronLeft, ChevronRight, X, Phone, Mail, User, MessageSquare, Loader2 } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Search, Filter, Loader2, RefreshCw, ArrowUpDown, LayoutGrid, List, Map as MapIcon, MapPin, X, BarChart3, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogClose } from '@/components/ui/dialog';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
+import { Toggle } from '@/components/ui/toggle';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 import { useToast } from '@/hooks/use-toast';
-import ChestertonsLogo from '@/assets/Chestertons-Logo.png';
-
-// Import fallback images
+import LastUpdated from '@/components/listings/LastUpdated';
+import FeedDiagnostics from '@/components/listings/FeedDiagnostics';
+import PropertyAttributes from '@/components/listings/PropertyAttributes';
+import PropertyCard, { PropertyCardSkeleton } from '@/components/listings/PropertyCard';
+import EnquiryForm from '@/components/listings/EnquiryForm';
+import SiteHeader from '@/components/listings/SiteHeader';
+import RangeFilter from '@/components/listings/RangeFilter';
+import FacetSidebar from '@/components/listings/FacetSidebar';
+import PropertyTable from '@/components/listings/PropertyTable';
+import MapSplitView from '@/components/listings/MapSplitView';
+import ListingPagination from '@/components/listings/ListingPagination';
+import WindowedGrid from '@/components/listings/WindowedGrid';
+import CompareTray from '@/components/listings/CompareTray';
+import SavedSearchesMenu from '@/components/listings/SavedSearchesMenu';
+import { formatArea, formatPrice, formatPricePerSqft } from '@/lib/format';
+import { filterProperties, getFacetOptions } from '@/lib/filter-properties';
+import { getShapeLabel } from '@/lib/geo';
+import { getTypeFilters, serializeFilters, type ListingFilters } from '@/lib/listing-filters';
+import { getAveragePricePerSqft, getKnownArea, getPricePerSqft } from '@/lib/pricing';
+import { useSaleListings, useRentListings } from '@/hooks/use-listings';
+import { useFilterDraft, useListingFilters } from '@/hooks/use-listing-filters';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useSavedSearchAlerts } from '@/hooks/use-saved-searches';
+import { usePriceHistory, usePriceHistoryRecorder } from '@/hooks/use-price-history';
+import { getSortLabel, getSortOptions, sortProperties, type SortOption } from '@/lib/listing-sort';
+import { COMMUNITY_NAMES } from '@/lib/communities';
+import { getPageCount, paginate } from '@/lib/pagination';
+import { RECENT_CHANGE_DAYS, narrowToChanged } from '@/lib/price-history';
+import type { ListingType, Property } from '@/types/property';
+
+// Fallback image used when a listing image fails to load
 import heroProperty1 from '@/assets/react.svg';
-import heroProperty2 from '@/assets/react.svg';
-import heroProperty3 from '@/assets/react.svg';
-
-// Types
-interface Property {
-  id: string;
-  title: string;
-  price: number;
-  area: number;
-  bedrooms: number;
-  community: string;
-  images: string[];
-  type: 'sale' | 'rent';
-  propertyType: 'commercial' | 'residential';
-  category?: string;
-  agentName?: string;
-}
-
-interface ContactFormData {
-  name: string;
-  email: string;
-  phone: string;
-  message: string;
-}
-
-interface LoadingState {
-  sales: boolean;
-  rent: boolean;
-  salesComplete: boolean;
-  rentComplete: boolean;
-  salesError: boolean;
-  rentError: boolean;
-}
-
-// Target communities - only these 3 will be shown
-const TARGET_COMMUNITIES = [
-  'Business Bay',
-  'Motor City',
-  'Barsha Heights'
-];
-
-// CORS proxy URLs for XML fetching - optimized order
-const CORS_PROXIES = [
-  'https://api.allorigins.win/raw?url=',
-  'https://corsproxy.io/?',
-];
-
-// Function to identify commercial categories
-const isCommercialCategory = (category: string): boolean => {
-  const commercialPatterns = [
-    'office', 'retail', 'commercial', 'shop', 'warehouse', 'industrial',
-    'business', 'clinic', 'medical', 'restaurant', 'cafe', 'hotel',
-    'showroom', 'mall', 'plaza', 'center', 'building', 'studio',
-    'workspace', 'laboratory', 'workshop', 'factory', 'logistics', 'storage'
-  ];
-
-  const categoryLower = category.toLowerCase();
-  return commercialPatterns.some(pattern => categoryLower.includes(pattern));
-};
-
-// Property Card Skeleton Component
-const PropertyCardSkeleton = () => (
-  <Card className="overflow-hidden bg-gradient-card shadow-card border-2">
-    <div className="relative h-64 overflow-hidden">
-      <Skeleton className="w-full h-full" />
-    </div>
-    <CardContent className="p-6">
-      <Skeleton className="h-6 w-3/4 mb-2" />
-      <Skeleton className="h-8 w-1/2 mb-4" />
-      <div className="grid grid-cols-2 gap-4 mb-4">
-        <div className="flex items-center">
-          <Skeleton className="h-4 w-4 mr-1" />
-          <Skeleton className="h-4 w-16" />
-        </div>
-        <div className="flex items-center">
-          <Skeleton className="h-4 w-4 mr-1" />
-          <Skeleton className="h-4 w-20" />
-        </div>
-      </div>
-      <Skeleton className="h-4 w-24 mb-4" />
-      <Skeleton className="h-10 w-full" />
-    </CardContent>
-  </Card>
-);
-
-// Optimized XML parsing - process in chunks
-const parseXMLPropertiesOptimized = async (xmlString: string, type: 'sale' | 'rent'): Promise<Property[]> => {
-  try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
-
-    const parserError = xmlDoc.querySelector('parsererror');
-    if (parserError) {
-      console.error('XML parsing error:', parserError.textContent);
-      return [];
-    }
-
-    const properties: Property[] = [];
-    const propertyElements = xmlDoc.querySelectorAll('UnitDTO, Property, property, PropertyInfo');
-
-    // Process in smaller chunks for better performance
-    const processChunk = async (elements: Element[], startIndex: number, chunkSize: number) => {
-      const endIndex = Math.min(startIndex + chunkSize, elements.length);
-
-      for (let i = startIndex; i < endIndex; i++) {
-        const element = elements[i];
-
-        try {
-          const getFieldValue = (fieldNames: string[]): string => {
-            for (const fieldName of fieldNames) {
-              const field = element.querySelector(fieldName);
-              if (field && field.textContent?.trim()) {
-                return field.textContent.trim();
-              }
-            }
-            return '';
-          };
-
-          const category = getFieldValue(['Category', 'PropertyCategory', 'PropertyType', 'UnitCategory', 'Type']);
-
-          // Only process commercial properties
-          if (!category || !isCommercialCategory(category)) {
-            continue;
-          }
-
-          const community = getFieldValue(['Community', 'CommunityName', 'Location', 'Area']);
-
-          // Community mappings
-          const communityMappings: { [key: string]: string } = {
-            'dubai investment park (dip)': 'Motor City',
-            'dubai investment park': 'Motor City',
-            'business bay': 'Business Bay',
-            'motor city': 'Motor City',
-            'barsha heights': 'Barsha Heights',
-            'al barsha heights': 'Barsha Heights'
-          };
-
-          const normalizedCommunity = community.toLowerCase();
-          const mappedCommunity = Object.keys(communityMappings).find(key =>
-            normalizedCommunity.includes(key)
-          );
-
-          const finalCommunity = mappedCommunity ? communityMappings[mappedCommunity] : community;
-
-          const isTargetCommunity = TARGET_COMMUNITIES.some(targetCommunity =>
-            finalCommunity.toLowerCase().includes(targetCommunity.toLowerCase()) ||
-            targetCommunity.toLowerCase().includes(finalCommunity.toLowerCase())
-          );
-
-          if (!isTargetCommunity) {
-            continue;
-          }
-
-          const title = getFieldValue(['PropertyName', 'PropertyTitle', 'Title', 'Name']) || `Property ${i + 1}`;
-
-          const priceStr = type === 'sale'
-            ? getFieldValue(['SellPrice', 'Price', 'PropertyPrice', 'SalePrice'])
-            : getFieldValue(['Rent', 'RentPrice', 'Price', 'PropertyPrice']);
-          const areaStr = getFieldValue(['BuiltupArea', 'FloorArea', 'Area', 'PropertyArea', 'TotalArea']);
-          const bedroomsStr = getFieldValue(['Bedrooms', 'BedroomCount', 'NumberOfBedrooms']);
-          
-          // Extract agent information
-          const agentName = getFieldValue([
-            'AgentName', 'Agent', 'ListedBy', 'ContactPerson', 
-            'SalesAgent', 'ListingAgent', 'PropertyAgent', 'AgentFirstName',
-            'ContactName', 'ResponsibleAgent', 'AgentFullName'
-          ]) || 'Chestertons Agent';
-
-          const price = parseFloat(priceStr.replace(/[^\d.]/g, '')) || 0;
-          const area = parseFloat(areaStr.replace(/[^\d.]/g, '')) || 800;
-          const bedrooms = parseInt(bedroomsStr) || 0;
-
-          // Extract images
-          let images: string[] = [];
-          const imagesContainer = element.querySelector('Images');
-          if (imagesContainer) {
-            const imageElements = imagesContainer.querySelectorAll('Image ImageURL, Image > ImageURL');
-            images = Array.from(imageElements)
-              .map(img => img.textContent?.trim())
-              .filter(Boolean) as string[];
-          }
-
-          const fallbackImages = [heroProperty1, heroProperty2, heroProperty3];
-          const finalImages = images.length > 0 ? images.slice(0, 5) : fallbackImages; // Limit to 5 images
-
-          if (price > 0) {
-            properties.push({
-              id: `${type}-${Date.now()}-${i}`,
-              title,
-              price,
-              area,
-              bedrooms,
-              community: finalCommunity,
-              images: finalImages,
-              type,
-              propertyType: 'commercial',
-              category: category,
-              agentName: agentName
-            });
-          }
-        } catch (error) {
-          console.error('Error parsing property element:', error);
-        }
-      }
-    };
-
-    // Process in chunks of 50 for better performance
-    const elements = Array.from(propertyElements);
-    const chunkSize = 50;
-    for (let i = 0; i < Math.min(elements.length, 300); i += chunkSize) { // Limit to first 300 elements
-      await processChunk(elements, i, chunkSize);
-
-      // Allow other operations to run
-      if (i % 100 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
-    }
-
-    return properties;
-  } catch (error) {
-    console.error('Error parsing XML:', error);
-    return [];
-  }
-};
-
-// Optimized fetch with faster timeout and better error handling
-const fetchXMLDataOptimized = async (url: string, type: 'sale' | 'rent'): Promise<Property[]> => {
-  const fetchWithTimeout = async (proxyUrl: string, timeout: number = 8000): Promise<Property[] | null> => {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-      const response = await fetch(`${proxyUrl}${encodeURIComponent(url)}`, {
-        signal: controller.signal,
-        headers: { 'Accept': 'application/xml, text/xml, */*' },
-      });
-
-      clearTimeout(timeoutId);
-
-      if (response.ok) {
-        const xmlText = await response.text();
-        console.log(`Successfully fetched ${type} listings via ${proxyUrl}`);
-        const properties = await parseXMLPropertiesOptimized(xmlText, type);
-        console.log(`Parsed ${properties.length} ${type} commercial properties`);
-        return properties;
-      }
-    } catch (error) {
-      console.error(`Failed to fetch via ${proxyUrl}:`, error);
-    }
-    return null;
-  };
-
-  // Try proxies sequentially (faster than parallel for this case)
-  for (const proxy of CORS_PROXIES) {
-    const result = await fetchWithTimeout(proxy);
-    if (result && result.length > 0) {
-      return result;
-    }
-  }
-
-  console.warn(`Failed to fetch ${type} listings from all proxies`);
-  return [];
-};
-
-// Memoized PropertyCard component
-const PropertyCard = memo(({
-  property,
-  currentIndex,
-  onPrevImage,
-  onNextImage,
-  onImageIndexChange,
-  onImageLoad,
-  onSelectProperty,
-  isImageLoaded,
-  formatPrice
-}: {
-  property: Property;
-  currentIndex: number;
-  onPrevImage: () => void;
-  onNextImage: () => void;
-  onImageIndexChange: (index: number) => void;
-  onImageLoad: (src: string) => void;
-  onSelectProperty: (property: Property) => void;
-  isImageLoaded: boolean;
-  formatPrice: (price: number) => string;
-}) => {
-  return (
-    <Card className="overflow-hidden bg-gradient-card shadow-card hover:shadow-glow transition-all duration-300 border-2 hover:border-primary group transform-gpu will-change-transform">
-      <div className="relative h-64 overflow-hidden">
-        {!isImageLoaded && (
-          <div className="absolute inset-0 bg-muted animate-pulse flex items-center justify-center">
-            <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
-          </div>
-        )}
-        <img
-          src={property.images[currentIndex]}
-          alt={property.title}
-          loading="lazy"
-          className={`w-full h-full object-cover transition-all duration-300 group-hover:scale-105 ${isImageLoaded ? 'opacity-100' : 'opacity-0'
-            }`}
-          onLoad={() => onImageLoad(property.images[currentIndex])}
-          onError={(e) => {
-            const target = e.target as HTMLImageElement;
-            target.src = heroProperty1;
-            onImageLoad(heroProperty1);
-          }}
-        />
-
-        {property.images.length > 1 && isImageLoaded && (
-          <>
-            <button
-              onClick={onPrevImage}
-              className="absolute left-2 top-1/2 transform -translate-y-1/2 bg-primary/80 hover:bg-primary text-primary-foreground rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
-              aria-label="Previous image"
-            >
-              <ChevronLeft className="h-4 w-4" />
-            </button>
-            <button
-              onClick={onNextImage}
-              className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-primary/80 hover:bg-primary text-primary-foreground rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300"
-              aria-label="Next image"
-            >
-              <ChevronRight className="h-4 w-4" />
-            </button>
-
-            <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 flex space-x-1">
-              {property.images.map((_, index) => (
-                <button
-                  key={index}
-                  onClick={() => onImageIndexChange(index)}
-                  className={`w-2 h-2 rounded-full transition-colors duration-200 ${index === currentIndex ? 'bg-primary' : 'bg-primary-foreground/50'
-                    }`}
-                  aria-label={`Go to image ${index + 1}`}
-                />
-              ))}
-            </div>
-          </>
-        )}
-      </div>
-
-      <CardContent className="p-6">
-        <h3 className="text-xl font-semibold text-foreground mb-2">{property.title}</h3>
-
-        <div className="text-2xl font-bold text-primary mb-4">
-          {formatPrice(property.price)}
-          {property.type === 'rent' && <span className="text-sm font-normal text-muted-foreground">/year</span>}
-        </div>
-
-        <div className="grid grid-cols-2 gap-4 mb-4 text-sm text-muted-foreground">
-          <div className="flex items-center">
-            <Square className="h-4 w-4 mr-1" />
-            {property.area} sq ft
-          </div>
-          <div className="flex items-center">
-            <MapPin className="h-4 w-4 mr-1" />
-            {property.community}
-          </div>
-        </div>
-
-        {property.category && (
-          <div className="text-sm text-muted-foreground mb-4">
-            Category: <span className="font-medium">{property.category}</span>
-          </div>
-        )}
-
-        {property.agentName && (
-          <div className="text-sm text-muted-foreground mb-4 flex items-center">
-            <User className="h-3 w-3 mr-1" />
-            Listed by: <span className="font-medium ml-1 text-primary">{property.agentName}</span>
-          </div>
-        )}
-
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button
-              className="w-full bg-gradient-purple hover:shadow-glow transition-all duration-300"
-              onClick={() => onSelectProperty(property)}
-            >
-              View Details & Contact
-            </Button>
-          </DialogTrigger>
-        </Dialog>
-      </CardContent>
-    </Card>
-  );
-});
-
-PropertyCard.displayName = 'PropertyCard';
+type ViewMode = 'grid' | 'table' | 'map';
+type PagingMode = 'pages' | 'scroll';
 
 const RealEstateListings = () => {
   // State management
-  const [salesProperties, setSalesProperties] = useState<Property[]>([]);
-  const [rentProperties, setRentProperties] = useState<Property[]>([]);
-  const [loadingState, setLoadingState] = useState<LoadingState>({
-    sales: true,
-    rent: false,
-    salesComplete: false,
-    rentComplete: false,
-    salesError: false,
-    rentError: false
-  });
-  const [dataSource, setDataSource] = useState<'api' | 'error'>('api');
-  const [searchTerm, setSearchTerm] = useState('');
-  const [priceRange, setPriceRange] = useState([0, 5000000]);
-  const [areaRange, setAreaRange] = useState([0, 2000]);
-  const [selectedPropertyType, setSelectedPropertyType] = useState<string>('any');
-  const [activeTab, setActiveTab] = useState<'sale' | 'rent'>('sale');
-  const [activeCommunity, setActiveCommunity] = useState<string>('Business Bay');
+  // Filter state lives in the URL so views can be shared and survive refresh
+  const location = useLocation();
+  const { filters, updateFilters, getFiltersHref, toggleFacetValue, clearFacets, clearFilters } = useListingFilters();
+  const { tab: activeTab, community: activeCommunity } = filters;
+  const [searchTerm, setSearchTerm] = useFilterDraft(filters.searchTerm, value => updateFilters({ searchTerm: value }));
+  const [priceRange, setPriceRange] = useFilterDraft(filters.priceRange, value => updateFilters({ priceRange: value }));
+  const [areaRange, setAreaRange] = useFilterDraft(filters.areaRange, value => updateFilters({ areaRange: value }));
+  const [pricePerSqftRange, setPricePerSqftRange] = useFilterDraft(
+    filters.pricePerSqftRange,
+    value => updateFilters({ pricePerSqftRange: value })
+  );
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
-  const [contactForm, setContactForm] = useState<ContactFormData>({
-    name: '',
-    email: '',
-    phone: '',
-    message: ''
-  });
-  const [isSubmittingContact, setIsSubmittingContact] = useState(false);
+  const [viewMode, setViewMode] = useLocalStorage<ViewMode>('view-mode', 'grid');
+  const [pagingMode, setPagingMode] = useLocalStorage<PagingMode>('paging-mode', 'pages');
   const { toast } = useToast();
 
   // Image slider states
   const [currentImageIndex, setCurrentImageIndex] = useState<{ [key: string]: number }>({});
   const [loadedImages, setLoadedImages] = useState<Set<string>>(new Set());
 
-  // PROGRESSIVE DATA LOADING - Sales first, then rentals
-  useEffect(() => {
-    const loadSalesData = async () => {
-      try {    
-        console.log('Loading commercial sales properties...');
-        const salesUrl = 'http://webapi.goyzer.com/Company.asmx/SalesListings?AccessCode=50!@Chestertons!29&GroupCode=5029&Bedrooms=&StartPriceRange=&EndPriceRange=&CategoryID=&SpecialProjects=&CountryID=&StateID=&CommunityID=&DistrictID=&FloorAreaMin=&FloorAreaMax=&UnitCategory=&UnitID=&BedroomsMax=&PropertyID=&ReadyNow=&PageIndex=&';
-
-        const salesProps = await fetchXMLDataOptimized(salesUrl, 'sale');
-
-        if (salesProps.length > 0) {
-          console.log(`Loaded ${salesProps.length} sales properties`);
-          setSalesProperties(salesProps);
-          setDataSource('api');
-          setLoadingState(prev => ({ ...prev, sales: false, salesComplete: true }));
-          
-          // Use the exact same filtering logic as used in the main app
-          setTimeout(() => {
-            const targetCommunitySalesCount = salesProps.filter(p => {
-              // Must be commercial (this filter is already applied in parsing, but double-check)
-              if (p.propertyType !== 'commercial') return false;
-              // Use the same community matching logic as the main app
-              return TARGET_COMMUNITIES.some(targetCommunity =>
-                p.community.toLowerCase().includes(targetCommunity.toLowerCase()) ||
-                targetCommunity.toLowerCase().includes(p.community.toLowerCase())
-              );
-            }).length;
-            
-            toast({
-              title: "Sales Properties Loaded",
-              description: `Found Sales commercial properties for sale in target areas`
-            });
-          }, 100);
-        } else {
-          console.warn('No sales properties found');
-          setLoadingState(prev => ({ ...prev, sales: false, salesComplete: true, salesError: true }));
-          setDataSource('error');
-          toast({
-            title: "No Sales Properties Found",
-            description: "Could not find any commercial properties for sale in the target areas",
-            variant: "destructive"
-          });
-        }
-      } catch (error) {
-        console.error('Error loading sales data:', error);
-        setLoadingState(prev => ({ ...prev, sales: false, salesComplete: true, salesError: true }));
-        setDataSource('error');
-        toast({
-          title: "Error Loading Sales Data",
-          description: "Failed to load commercial properties for sale",
-          variant: "destructive"
-        });
-      } finally {
-        // Start loading rentals after sales complete
-        loadRentalsData();
-      }
-    };
-
-    const loadRentalsData = async () => {
-      setLoadingState(prev => ({ ...prev, rent: true }));
-
-      try {
-        console.log('Loading commercial rental properties...');
-        const rentUrl = 'http://webapi.goyzer.com/Company.asmx/RentListings?AccessCode=50!@Chestertons!29&GroupCode=5029&PropertyType=&Bedrooms=&StartPriceRange=&EndPriceRange=&categoryID=&CountryID=&StateID=&CommunityID=&FloorAreaMin=&FloorAreaMax=&UnitCategory=&UnitID=&BedroomsMax=&PropertyID=&ReadyNow=&PageIndex=&';
-
-        const rentProps = await fetchXMLDataOptimized(rentUrl, 'rent');
+  // Listing feeds - cached, retried and refreshed in the background by TanStack Query.
+  // Each feed keeps its own error so one failing doesn't blank the other.
+  const salesQuery = useSaleListings();
+  const rentQuery = useRentListings();
+  const loadedSales = salesQuery.data ?? salesQuery.partialData;
+  const loadedRent = rentQuery.data ?? rentQuery.partialData;
+
+  // "Recently changed" narrows the feeds themselves, so tab, facet and range counts agree
+  const { history: priceHistory, changeTimes } = usePriceHistory();
+  const salesProperties = useMemo(() => {
+    return narrowToChanged(loadedSales, filters.changedOnly, changeTimes);
+  }, [loadedSales, filters.changedOnly, changeTimes]);
+  const rentProperties = useMemo(() => {
+    return narrowToChanged(loadedRent, filters.changedOnly, changeTimes);
+  }, [loadedRent, filters.changedOnly, changeTimes]);
 
-        if (rentProps.length > 0) {
-          console.log(`Loaded ${rentProps.length} rental properties`);
-          setRentProperties(rentProps);
-          setLoadingState(prev => ({ ...prev, rent: false, rentComplete: true }));
-          
-          // Use the exact same filtering logic as used in the main app  
-          setTimeout(() => {
-            const targetCommunityRentCount = rentProps.filter(p => {
-              // Must be commercial (this filter is already applied in parsing, but double-check)
-              if (p.propertyType !== 'commercial') return false;
-              // Use the same community matching logic as the main app
-              return TARGET_COMMUNITIES.some(targetCommunity =>
-                p.community.toLowerCase().includes(targetCommunity.toLowerCase()) ||
-                targetCommunity.toLowerCase().includes(p.community.toLowerCase())
-              );
-            }).length;
-            
-            toast({
-              title: "Rental Properties Loaded", 
-              description: `Found Rental commercial properties for rent in target areas`
-            });
-          }, 100);
-        } else {
-          console.warn('No rental properties found');
-          setLoadingState(prev => ({ ...prev, rent: false, rentComplete: true, rentError: true }));
-          toast({
-            title: "No Rental Properties Found",
-            description: "Could not find any commercial properties for rent in the target areas",
-            variant: "destructive"
-          });
-        }
-      } catch (error) {
-        console.error('Error loading rental data:', error);
-        setLoadingState(prev => ({ ...prev, rent: false, rentComplete: true, rentError: true }));
-        toast({
-          title: "Error Loading Rental Data",
-          description: "Failed to load commercial properties for rent",
-          variant: "destructive"
-        });
-      }
-    };
+  useEffect(() => {
+    if (!salesQuery.error) return;
+    console.error('Error loading sales data:', salesQuery.error);
+    toast({
+      title: "Error Loading Sales Data",
+      description: "Failed to load commercial properties for sale",
+      variant: "destructive"
+    });
+  }, [salesQuery.error, toast]);
 
-    // Start with sales data immediately
-    loadSalesData();
-  }, [toast]);
+  useEffect(() => {
+    if (!rentQuery.error) return;
+    console.error('Error loading rental data:', rentQuery.error);
+    toast({
+      title: "Error Loading Rental Data",
+      description: "Failed to load commercial properties for rent",
+      variant: "destructive"
+    });
+  }, [rentQuery.error, toast]);
 
   // Get current properties based on active tab
+  const currentQuery = activeTab === 'sale' ? salesQuery : rentQuery;
   const currentProperties = activeTab === 'sale' ? salesProperties : rentProperties;
-  const isCurrentTabLoading = activeTab === 'sale' ? loadingState.sales : loadingState.rent;
-
-  // Filter properties
-  const filteredProperties = useMemo(() => {
-    return currentProperties.filter(property => {
-      // Commercial filter
-      if (property.propertyType !== 'commercial') return false;
-
-      // Search filter
-      if (searchTerm && !property.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-        !property.community.toLowerCase().includes(searchTerm.toLowerCase()) &&
-        !(property.category && property.category.toLowerCase().includes(searchTerm.toLowerCase()))) {
-        return false;
-      }
-
-      // Price filter
-      if (property.price < priceRange[0] || property.price > priceRange[1]) {
-        return false;
-      }
-
-      // Area filter
-      if (property.area < areaRange[0] || property.area > areaRange[1]) {
-        return false;
-      }
-
-      // Property type filter
-      if (selectedPropertyType && selectedPropertyType !== 'any' &&
-        property.category && !property.category.toLowerCase().includes(selectedPropertyType)) {
-        return false;
-      }
-
-      return true;
-    });
-  }, [currentProperties, searchTerm, priceRange, areaRange, selectedPropertyType]);
+  const isCurrentTabLoading = currentQuery.isLoading;
+  const isCurrentTabRefreshing = currentQuery.isRefetching;
+  // Only treat an error as fatal when there is no previously loaded data to show
+  const currentTabError = currentQuery.data ? null : currentQuery.error;
+
+  // Distributions for the range filters - bounds follow whatever the current tab has loaded
+  const commercialProperties = useMemo(() => {
+    return currentProperties.filter(property => property.propertyType === 'commercial');
+  }, [currentProperties]);
+  const priceValues = useMemo(() => commercialProperties.map(property => property.price), [commercialProperties]);
+  const areaValues = useMemo(() => {
+    return commercialProperties.map(getKnownArea).filter((value): value is number => value !== undefined);
+  }, [commercialProperties]);
+  const pricePerSqftValues = useMemo(() => {
+    return commercialProperties.map(getPricePerSqft).filter((value): value is number => value !== undefined);
+  }, [commercialProperties]);
+
+  // Committed URL filters with the in-progress drafts applied, so results follow typing/dragging
+  const activeFilters = useMemo<ListingFilters>(
+    () => ({ ...filters, searchTerm, priceRange, areaRange, pricePerSqftRange }),
+    [filters, searchTerm, priceRange, areaRange, pricePerSqftRange]
+  );
 
-  // Get only properties that match target communities for display
+  // Properties matching every filter in the target communities, in the chosen order
   const targetCommunityProperties = useMemo(() => {
-    return filteredProperties.filter(property => {
-      return TARGET_COMMUNITIES.some(targetCommunity =>
-        property.community.toLowerCase().includes(targetCommunity.toLowerCase()) ||
-        targetCommunity.toLowerCase().includes(property.community.toLowerCase())
-      );
-    });
-  }, [filteredProperties]);
+    return sortProperties(filterProperties(currentProperties, activeFilters), filters.sort, changeTimes);
+  }, [currentProperties, activeFilters, filters.sort, changeTimes]);
+  const sortOptions = useMemo(() => getSortOptions(changeTimes), [changeTimes]);
+  // Identifies the search itself, so refreshed data for the same search isn't treated as a new one
+  const resultsKey = useMemo(() => serializeFilters({ ...activeFilters, page: 1 }).toString(), [activeFilters]);
+
+  // Counts for the other tab use the same predicate, without this tab's price ranges
+  const salesCount = useMemo(() => {
+    return filterProperties(salesProperties, getTypeFilters(activeFilters, 'sale')).length;
+  }, [salesProperties, activeFilters]);
+  const rentCount = useMemo(() => {
+    return filterProperties(rentProperties, getTypeFilters(activeFilters, 'rent')).length;
+  }, [rentProperties, activeFilters]);
+
+  // Saved searches and price history are updated whenever a feed finishes loading
+  useSavedSearchAlerts(salesQuery.data, rentQuery.data);
+  usePriceHistoryRecorder(salesQuery.data, rentQuery.data);
+  // Saved searches don't include "recently changed", so their matches come from the whole feed
+  const matchingIds = useMemo(() => {
+    const loadedProperties = activeTab === 'sale' ? loadedSales : loadedRent;
+    return filterProperties(loadedProperties, activeFilters).map(property => property.id);
+  }, [activeTab, loadedSales, loadedRent, activeFilters]);
+
+  const facetOptions = useMemo(() => getFacetOptions(currentProperties, activeFilters), [currentProperties, activeFilters]);
 
   // Group properties by community
   const propertiesByCommunity = useMemo(() => {
     const grouped: { [key: string]: Property[] } = {};
 
-    TARGET_COMMUNITIES.forEach(community => {
+    COMMUNITY_NAMES.forEach(community => {
       grouped[community] = targetCommunityProperties.filter(p => p.community === community);
     });
 
@@ -607,7 +171,16 @@ const RealEstateListings = () => {
   }, [targetCommunityProperties]);
 
   // Get current community properties
-  const currentCommunityProperties = propertiesByCommunity[activeCommunity] || [];
+  const currentCommunityProperties = useMemo(() => {
+    return propertiesByCommunity[activeCommunity] || [];
+  }, [propertiesByCommunity, activeCommunity]);
+
+  // Paged view - the page in the URL may be past the end once filters narrow the results
+  const pageCount = getPageCount(currentCommunityProperties.length, filters.pageSize);
+  const currentPage = Math.min(filters.page, pageCount);
+  const pagedProperties = useMemo(() => {
+    return paginate(currentCommunityProperties, currentPage, filters.pageSize);
+  }, [currentCommunityProperties, currentPage, filters.pageSize]);
 
   // Image navigation handlers
   const nextImage = useCallback((propertyId: string, totalImages: number) => {
@@ -628,79 +201,44 @@ const RealEstateListings = () => {
     setLoadedImages(prev => new Set(prev).add(imageSrc));
   }, []);
 
-  // Contact form submission
-  const handleContactSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedProperty) return;
+  const renderPropertyCard = (property: Property) => {
+    const currentIndex = currentImageIndex[property.id] || 0;
+    const isImageLoaded = loadedImages.has(property.images[currentIndex]);
 
-    setIsSubmittingContact(true);
-
-    try {
-      const webhookData = {
-        contact_name: contactForm.name,
-        contact_email: contactForm.email,
-        contact_phone: contactForm.phone,
-        contact_message: contactForm.message,
-        property_id: selectedProperty.id,
-        property_title: selectedProperty.title,
-        property_price: `AED ${selectedProperty.price.toLocaleString()}`,
-        property_area: `${selectedProperty.area} sq ft`,
-        property_community: selectedProperty.community,
-        property_type: selectedProperty.type,
-        property_category: selectedProperty.category,
-        agent_name: selectedProperty.agentName || 'Chestertons Agent',
-        timestamp: new Date().toISOString(),
-        source: 'Real Estate Listings App'
-      };
-
-      await fetch('https://hooks.zapier.com/hooks/catch/21352187/utgtlkb/', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        mode: 'no-cors',
-        body: JSON.stringify(webhookData)
-      });
-
-      toast({
-        title: "Inquiry Sent Successfully",
-        description: "Thank you for your interest! We'll contact you soon."
-      });
-
-      setContactForm({ name: '', email: '', phone: '', message: '' });
-      setSelectedProperty(null);
-
-    } catch (error) {
-      console.error('Error submitting contact form:', error);
-      toast({
-        title: "Error",
-        description: "Failed to send inquiry. Please try again.",
-        variant: "destructive"
-      });
-    } finally {
-      setIsSubmittingContact(false);
-    }
-  };
-
-  const clearFilters = () => {
-    setSearchTerm('');
-    setPriceRange([0, 5000000]);
-    setAreaRange([0, 2000]);
-    setSelectedPropertyType('any');
+    return (
+      <PropertyCard
+        key={property.id}
+        property={property}
+        currentIndex={currentIndex}
+        onPrevImage={() => prevImage(property.id, property.images.length)}
+        onNextImage={() => nextImage(property.id, property.images.length)}
+        onImageIndexChange={(index) => setCurrentImageIndex(prev => ({ ...prev, [property.id]: index }))}
+        onImageLoad={handleImageLoad}
+        onSelectProperty={setSelectedProperty}
+        isImageLoaded={isImageLoaded}
+        formatPrice={formatPrice}
+        history={priceHistory[property.id]}
+      />
+    );
   };
 
-  const formatPrice = (price: number) => {
-    return `AED ${price.toLocaleString()}`;
+  // Manual refresh - refetches both feeds while the current listings stay on screen
+  const isRefreshingAll = salesQuery.isFetching || rentQuery.isFetching;
+  const refreshListings = () => {
+    salesQuery.refetch();
+    rentQuery.refetch();
   };
 
   // Loading Indicators
-  const LoadingIndicator = ({ type, isLoading }: { type: string; isLoading: boolean }) => {
-    if (!isLoading) return null;
+  const LoadingIndicator = ({ type, isLoading, isRefreshing }: { type: string; isLoading: boolean; isRefreshing: boolean }) => {
+    if (!isLoading && !isRefreshing) return null;
 
     return (
       <div className="fixed top-4 right-4 z-50">
         <Card className="p-4 shadow-lg border-2 border-primary bg-white">
           <div className="flex items-center space-x-2">
             <Loader2 className="h-4 w-4 animate-spin text-primary" />
-            <span className="text-sm font-medium">Loading {type}...</span>
+            <span className="text-sm font-medium">{isLoading ? 'Loading' : 'Refreshing'} {type}...</span>
           </div>
         </Card>
       </div>
@@ -708,396 +246,334 @@ const RealEstateListings = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-subtle">
-      <LoadingIndicator
-        type={activeTab === 'sale' ? 'commercial sales' : 'commercial rentals'}
-        isLoading={isCurrentTabLoading}
+    <SidebarProvider>
+      <FacetSidebar
+        options={facetOptions}
+        selections={filters.facets}
+        onToggle={toggleFacetValue}
+        onClear={clearFacets}
       />
-
-      {/* Header */}
-      <header className="bg-gradient-purple shadow-purple">
-        <div className="container mx-auto px-4 py-2">
-          <div className="text-center">
-            <img
-              src={ChestertonsLogo}
-              alt="Chestertons Logo"
-              className="mx-auto"
-              style={{ maxWidth: '160px' }}
-            />
-          </div>
-        </div>
-      </header>
-
-      <div className="container mx-auto px-4 py-8">
-        {/* Search and Filters */}
-        <Card className="mb-8 bg-gradient-card shadow-card border-2">
-          <CardContent className="p-6">
-            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-4 ">
-              <div className="space-y-8 relative lg:col-span-1">
-                <Search className="absolute left-3 top-[3.25rem] transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
-                <Input
-                  placeholder="Search properties, communities, or categories..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10 border-2 focus:ring-primary focus:border-primary h-10"
-                />
-              </div>
-
-              {/* Price Range */}
-              <div className="space-y-6 lg:col-span-1">
-                <Label className="text-sm font-medium">Price Range</Label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="range"
-                    min="0"
-                    max="5000000"
-                    step="50000"
-                    value={priceRange[0]}
-                    onChange={(e) => setPriceRange([parseInt(e.target.value), priceRange[1]])}
-                    className="flex-1"
-                  />
-                  <input
-                    type="range"
-                    min="0"
-                    max="5000000"
-                    step="50000"
-                    value={priceRange[1]}
-                    onChange={(e) => setPriceRange([priceRange[0], parseInt(e.target.value)])}
-                    className="flex-1"
-                  />
-                </div>
-                <div className="text-xs text-muted-foreground">
-                  {formatPrice(priceRange[0])} - {formatPrice(priceRange[1])}
-                </div>
-              </div>
-
-              {/* Area Range */}
-              <div className="space-y-6 lg:col-span-1">
-                <Label className="text-sm font-medium">Area (sq ft)</Label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="range"
-                    min="0"
-                    max="2000"
-                    step="50"
-                    value={areaRange[0]}
-                    onChange={(e) => setAreaRange([parseInt(e.target.value), areaRange[1]])}
-                    className="flex-1"
-                  />
-                  <input
-                    type="range"
-                    min="0"
-                    max="2000"
-                    step="50"
-                    value={areaRange[1]}
-                    onChange={(e) => setAreaRange([areaRange[0], parseInt(e.target.value)])}
-                    className="flex-1"
-                  />
-                </div>
-                <div className="text-xs text-muted-foreground">
-                  {areaRange[0]} - {areaRange[1]} sq ft
-                </div>
-              </div>
-
-              {/* Property Type */}
-              <div className="space-y-2 lg:col-span-1">
-                <Label className="text-sm font-medium">Property Type</Label>
-                <Select value={selectedPropertyType} onValueChange={setSelectedPropertyType}>
-                  <SelectTrigger className="border-2 focus:ring-primary focus:border-primary h-10">
-                    <SelectValue placeholder="All Commercial" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="any">All Commercial</SelectItem>
-                    <SelectItem value="office">Office</SelectItem>
-                    <SelectItem value="retail">Retail</SelectItem>
-                    <SelectItem value="warehouse">Warehouse</SelectItem>
-                    <SelectItem value="showroom">Showroom</SelectItem>
-                    <SelectItem value="clinic">Medical/Clinic</SelectItem>
-                    <SelectItem value="restaurant">Restaurant/Cafe</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-
-            <div className="flex justify-between items-center">
-              <div className="flex items-center space-x-4">
-                <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                  <Filter className="h-4 w-4" />
-                  <span>Showing {targetCommunityProperties.length} commercial properties</span>
-                </div>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Button variant="outline" onClick={clearFilters} size="sm">
-                  Clear Filters
-                </Button>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Main Tabs - Sale/Rent */}
-        <Tabs value={activeTab} onValueChange={(value) => {
-          setActiveTab(value as 'sale' | 'rent');
-          // Reset to first community when switching between sale/rent
-          setActiveCommunity('Business Bay');
-        }} className="mb-8">
-          <TabsList className="grid w-full grid-cols-2 bg-gradient-card border-2">
-            <TabsTrigger value="sale" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-              Commercial Sales ({activeTab === 'sale' ? targetCommunityProperties.length : 
-                salesProperties.filter(p => {
-                  // Apply same filtering logic for accurate count
-                  if (p.propertyType !== 'commercial') return false;
-                  if (searchTerm && !p.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-                    !p.community.toLowerCase().includes(searchTerm.toLowerCase()) &&
-                    !(p.category && p.category.toLowerCase().includes(searchTerm.toLowerCase()))) {
-                    return false;
-                  }
-                  if (p.price < priceRange[0] || p.price > priceRange[1]) return false;
-                  if (p.area < areaRange[0] || p.area > areaRange[1]) return false;
-                  if (selectedPropertyType && selectedPropertyType !== 'any' &&
-                    p.category && !p.category.toLowerCase().includes(selectedPropertyType)) {
-                    return false;
-                  }
-                  return TARGET_COMMUNITIES.some(targetCommunity =>
-                    p.community.toLowerCase().includes(targetCommunity.toLowerCase()) ||
-                    targetCommunity.toLowerCase().includes(p.community.toLowerCase())
-                  );
-                }).length})
-            </TabsTrigger>
-            <TabsTrigger value="rent" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
-              Commercial Rentals ({activeTab === 'rent' ? targetCommunityProperties.length : 
-                rentProperties.filter(p => {
-                  // Apply same filtering logic for accurate count
-                  if (p.propertyType !== 'commercial') return false;
-                  if (searchTerm && !p.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-                    !p.community.toLowerCase().includes(searchTerm.toLowerCase()) &&
-                    !(p.category && p.category.toLowerCase().includes(searchTerm.toLowerCase()))) {
-                    return false;
-                  }
-                  if (p.price < priceRange[0] || p.price > priceRange[1]) return false;
-                  if (p.area < areaRange[0] || p.area > areaRange[1]) return false;
-                  if (selectedPropertyType && selectedPropertyType !== 'any' &&
-                    p.category && !p.category.toLowerCase().includes(selectedPropertyType)) {
-                    return false;
-                  }
-                  return TARGET_COMMUNITIES.some(targetCommunity =>
-                    p.community.toLowerCase().includes(targetCommunity.toLowerCase()) ||
-                    targetCommunity.toLowerCase().includes(p.community.toLowerCase())
-                  );
-                }).length})
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value={activeTab} className="mt-6">
-            {/* Community Tabs */}
-            <Tabs value={activeCommunity} onValueChange={setActiveCommunity} className="mb-6">
-              <TabsList className="grid w-full grid-cols-3 bg-gradient-card border-2">
-                {TARGET_COMMUNITIES.map(community => {
-                  // Get filtered count for this specific community and current tab
-                  const communityCount = targetCommunityProperties.filter(p => p.community === community).length;
-                  return (
-                    <TabsTrigger 
-                      key={community} 
-                      value={community}
-                      className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
-                    >
-                      {community} ({communityCount})
-                    </TabsTrigger>
-                  );
-                })}
-              </TabsList>
-
-              {TARGET_COMMUNITIES.map(community => (
-                <TabsContent key={community} value={community} className="mt-6">
-                  {/* Show loading skeletons while loading */}
-                  {isCurrentTabLoading && currentProperties.length === 0 ? (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {Array.from({ length: 6 }).map((_, index) => (
-                        <PropertyCardSkeleton key={`${community}-skeleton-${index}`} />
-                      ))}
-                    </div>
-                  ) : propertiesByCommunity[community]?.length > 0 ? (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {propertiesByCommunity[community].map((property) => {
-                        const currentIndex = currentImageIndex[property.id] || 0;
-                        const isImageLoaded = loadedImages.has(property.images[currentIndex]);
-
-                        return (
-                          <PropertyCard
-                            key={property.id}
-                            property={property}
-                            currentIndex={currentIndex}
-                            onPrevImage={() => prevImage(property.id, property.images.length)}
-                            onNextImage={() => nextImage(property.id, property.images.length)}
-                            onImageIndexChange={(index) => setCurrentImageIndex(prev => ({ ...prev, [property.id]: index }))}
-                            onImageLoad={handleImageLoad}
-                            onSelectProperty={setSelectedProperty}
-                            isImageLoaded={isImageLoaded}
-                            formatPrice={formatPrice}
-                          />
-                        );
-                      })}
-                    </div>
-                  ) : !isCurrentTabLoading ? (
-                    <div className="text-center py-12">
-                      <div className="text-muted-foreground text-lg mb-4">
-                        {activeTab === 'sale' && loadingState.salesError ?
-                          `Failed to load commercial properties for sale in ${community}. Please try refreshing the page.` :
-                          activeTab === 'rent' && loadingState.rentError ?
-                            `Failed to load commercial properties for rent in ${community}. Please try refreshing the page.` :
-                            `No commercial properties found in ${community} matching your criteria.`
-                        }
-                      </div>
-                      {((activeTab === 'sale' && loadingState.salesError) ||
-                        (activeTab === 'rent' && loadingState.rentError)) ? (
-                        <Button onClick={() => window.location.reload()} className="mt-4">
-                          Refresh Page
-                        </Button>
-                      ) : (
-                        <Button onClick={clearFilters} className="mt-4">Clear Filters</Button>
-                      )}
-                    </div>
-                  ) : null}
-                </TabsContent>
-              ))}
-            </Tabs>
-          </TabsContent>
-        </Tabs>
-
-        {/* Contact Modal */}
-        <Dialog open={selectedProperty !== null} onOpenChange={(open) => !open && setSelectedProperty(null)}>
-          <DialogContent className="max-w-2xl bg-gradient-card border-2">
-            <DialogHeader>
-              <DialogTitle className="text-2xl font-bold text-primary">
-                Contact Us About {selectedProperty?.title}
-              </DialogTitle>
-              <DialogClose />
-            </DialogHeader>
-
-            {selectedProperty && (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Property Details */}
-                <div>
-                  <img
-                    src={selectedProperty.images[0]}
-                    alt={selectedProperty.title}
-                    loading="lazy"
-                    className="w-full h-48 object-cover rounded-lg mb-4"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      target.src = heroProperty1;
-                    }}
-                  />
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Price:</span>
-                      <span className="font-semibold text-primary">{formatPrice(selectedProperty.price)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Area:</span>
-                      <span className="font-semibold">{selectedProperty.area} sq ft</span>
-                    </div>
-                    {selectedProperty.category && (
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Category:</span>
-                        <span className="font-semibold">{selectedProperty.category}</span>
-                      </div>
-                    )}
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Community:</span>
-                      <span className="font-semibold">{selectedProperty.community}</span>
-                    </div>
-                    {selectedProperty.agentName && (
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Listed by:</span>
-                        <span className="font-semibold">{selectedProperty.agentName}</span>
-                      </div>
-                    )}
-                  </div>
-                </div>
-
-                {/* Contact Form */}
-                <form onSubmit={handleContactSubmit} className="space-y-4">
-                  <div>
-                    <Label htmlFor="name" className="flex items-center">
-                      <User className="h-4 w-4 mr-1" />
-                      Name *
-                    </Label>
+      <SidebarInset>
+        <div className="min-h-screen bg-gradient-subtle">
+          <LoadingIndicator
+            type={activeTab === 'sale' ? 'commercial sales' : 'commercial rentals'}
+            isLoading={isCurrentTabLoading}
+            isRefreshing={isCurrentTabRefreshing}
+          />
+
+          {import.meta.env.DEV && <FeedDiagnostics />}
+
+          {/* Header */}
+          <SiteHeader />
+
+          <div className="container mx-auto px-4 py-8">
+            {/* Search and Filters */}
+            <Card className="mb-8 bg-gradient-card shadow-card border-2">
+              <CardContent className="p-6">
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-4 ">
+                  <div className="space-y-8 relative lg:col-span-1">
+                    <Search className="absolute left-3 top-[3.25rem] transform -translate-y-1/2 text-muted-foreground h-4 w-4 z-10" />
                     <Input
-                      id="name"
-                      value={contactForm.name}
-                      onChange={(e) => setContactForm(prev => ({ ...prev, name: e.target.value }))}
-                      required
-                      className="border-2 focus:ring-primary focus:border-primary"
+                      placeholder="Search properties, communities, or categories..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10 border-2 focus:ring-primary focus:border-primary h-10"
                     />
                   </div>
 
-                  <div>
-                    <Label htmlFor="email" className="flex items-center">
-                      <Mail className="h-4 w-4 mr-1" />
-                      Email *
-                    </Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      value={contactForm.email}
-                      onChange={(e) => setContactForm(prev => ({ ...prev, email: e.target.value }))}
-                      required
-                      className="border-2 focus:ring-primary focus:border-primary"
+                  {/* Price Range */}
+                  <div className="lg:col-span-1">
+                    <RangeFilter
+                      label="Price"
+                      values={priceValues}
+                      range={priceRange}
+                      onRangeChange={setPriceRange}
+                      formatValue={formatPrice}
                     />
                   </div>
 
-                  <div>
-                    <Label htmlFor="phone" className="flex items-center">
-                      <Phone className="h-4 w-4 mr-1" />
-                      Phone *
-                    </Label>
-                    <Input
-                      id="phone"
-                      type="tel"
-                      value={contactForm.phone}
-                      onChange={(e) => setContactForm(prev => ({ ...prev, phone: e.target.value }))}
-                      required
-                      className="border-2 focus:ring-primary focus:border-primary"
+                  {/* Area Range */}
+                  <div className="lg:col-span-1">
+                    <RangeFilter
+                      label="Area (sq ft)"
+                      values={areaValues}
+                      range={areaRange}
+                      onRangeChange={setAreaRange}
+                      formatValue={formatArea}
                     />
                   </div>
 
-                  <div>
-                    <Label htmlFor="message" className="flex items-center">
-                      <MessageSquare className="h-4 w-4 mr-1" />
-                      Message
-                    </Label>
-                    <Textarea
-                      id="message"
-                      value={contactForm.message}
-                      onChange={(e) => setContactForm(prev => ({ ...prev, message: e.target.value }))}
-                      placeholder="Tell us about your commercial property requirements..."
-                      className="border-2 focus:ring-primary focus:border-primary"
-                      rows={3}
+                  {/* Price per sq ft Range */}
+                  <div className="lg:col-span-1">
+                    <RangeFilter
+                      label={`Price per sq ft${activeTab === 'rent' ? ' (annual)' : ''}`}
+                      values={pricePerSqftValues}
+                      range={pricePerSqftRange}
+                      onRangeChange={setPricePerSqftRange}
+                      formatValue={(value) => formatPricePerSqft(value, activeTab)}
                     />
                   </div>
+                </div>
 
-                  <Button
-                    type="submit"
-                    disabled={isSubmittingContact}
-                    className="w-full bg-gradient-purple hover:shadow-glow transition-all duration-300"
-                  >
-                    {isSubmittingContact ? (
-                      <>
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Sending Inquiry...
-                      </>
-                    ) : (
-                      'Send Inquiry'
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center space-x-4">
+                    <SidebarTrigger className="h-8 w-8" aria-label="Toggle filter sidebar" />
+                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                      <Filter className="h-4 w-4" />
+                      <span>Showing {targetCommunityProperties.length} commercial properties</span>
+                    </div>
+                    <Toggle
+                      variant="outline"
+                      size="sm"
+                      pressed={filters.changedOnly}
+                      onPressedChange={(changedOnly) => updateFilters({ changedOnly })}
+                      aria-label={`Only listings new or repriced in the last ${RECENT_CHANGE_DAYS} days`}
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      Recently changed
+                    </Toggle>
+                    {filters.shape && (
+                      <Badge variant="secondary" className="pl-2 pr-1 py-0.5">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {getShapeLabel(filters.shape)}
+                        <button
+                          type="button"
+                          onClick={() => updateFilters({ shape: null })}
+                          className="ml-1 rounded-full p-0.5 hover:bg-background"
+                          aria-label="Clear search area"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
                     )}
-                  </Button>
-                </form>
-              </div>
-            )}
-          </DialogContent>
-        </Dialog>
-      </div>
-    </div>
+                    <LastUpdated timestamp={currentQuery.dataUpdatedAt} />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={viewMode}
+                      onValueChange={(value) => value && setViewMode(value as ViewMode)}
+                      aria-label="View mode"
+                    >
+                      <ToggleGroupItem value="grid" aria-label="Card grid">
+                        <LayoutGrid className="h-4 w-4" />
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="table" aria-label="Table">
+                        <List className="h-4 w-4" />
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="map" aria-label="Map">
+                        <MapIcon className="h-4 w-4" />
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                    <Select value={pagingMode} onValueChange={(value) => setPagingMode(value as PagingMode)}>
+                      <SelectTrigger className="w-36 h-9" aria-label="Paging mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="pages">Paged</SelectItem>
+                        <SelectItem value="scroll">Infinite scroll</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as SortOption })}>
+                      <SelectTrigger className="w-56 h-9" aria-label="Sort listings">
+                        <ArrowUpDown className="h-4 w-4 mr-1 text-muted-foreground" />
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sortOptions.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                        {/* Column sorts picked from the table headers, or a sort from a shared link */}
+                        {!sortOptions.some(option => option.value === filters.sort) && (
+                          <SelectItem value={filters.sort}>{getSortLabel(filters.sort)}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" onClick={refreshListings} disabled={isRefreshingAll} size="sm">
+                      <RefreshCw className={`h-4 w-4 mr-1 ${isRefreshingAll ? 'animate-spin' : ''}`} />
+                      Refresh
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={{ pathname: '/insights', search: location.search }}>
+                        <BarChart3 className="h-4 w-4 mr-1" />
+                        Insights
+                      </Link>
+                    </Button>
+                    <SavedSearchesMenu filters={activeFilters} matchIds={matchingIds} canSave={currentQuery.isSettled} />
+                    <Button variant="outline" onClick={clearFilters} size="sm">
+                      Clear Filters
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Main Tabs - Sale/Rent */}
+            <Tabs value={activeTab} onValueChange={(value) => {
+              // Reset to first community when switching between sale/rent. Sale prices and
+              // annual rents aren't on the same scale, so the price ranges go too.
+              updateFilters({
+                tab: value as ListingType,
+                community: COMMUNITY_NAMES[0],
+                priceRange: null,
+                pricePerSqftRange: null,
+              });
+            }} className="mb-8">
+              <TabsList className="grid w-full grid-cols-2 bg-gradient-card border-2">
+                <TabsTrigger value="sale" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                  Commercial Sales ({salesCount})
+                </TabsTrigger>
+                <TabsTrigger value="rent" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+                  Commercial Rentals ({rentCount})
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value={activeTab} className="mt-6">
+                {/* Community Tabs */}
+                <Tabs value={activeCommunity} onValueChange={(community) => updateFilters({ community })} className="mb-6">
+                  <TabsList className="flex flex-wrap h-auto w-full bg-gradient-card border-2">
+                    {COMMUNITY_NAMES.map(community => {
+                      // Get filtered count for this specific community and current tab
+                      const communityProperties = propertiesByCommunity[community] || [];
+                      const averagePricePerSqft = getAveragePricePerSqft(communityProperties);
+                      return (
+                        <TabsTrigger 
+                          key={community} 
+                          value={community}
+                          className="flex-1 flex-col data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                        >
+                          <span>{community} ({communityProperties.length})</span>
+                          {averagePricePerSqft !== undefined && (
+                            <span className="text-xs font-normal opacity-80">
+                              Avg {formatPricePerSqft(averagePricePerSqft, activeTab)}
+                            </span>
+                          )}
+                        </TabsTrigger>
+                      );
+                    })}
+                  </TabsList>
+
+                  {COMMUNITY_NAMES.map(community => (
+                    <TabsContent key={community} value={community} className="mt-6">
+                      {/* Show loading skeletons while loading */}
+                      {isCurrentTabLoading && currentProperties.length === 0 ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                          {Array.from({ length: 6 }).map((_, index) => (
+                            <PropertyCardSkeleton key={`${community}-skeleton-${index}`} />
+                          ))}
+                        </div>
+                      ) : propertiesByCommunity[community]?.length > 0 || (viewMode === 'map' && !currentTabError) ? (
+                        // The map stays up with no results so a search area can be redrawn
+                        <>
+                          {viewMode === 'map' ? (
+                            <MapSplitView
+                              mapProperties={currentCommunityProperties}
+                              listProperties={pagingMode === 'pages' ? pagedProperties : currentCommunityProperties}
+                              renderCard={renderPropertyCard}
+                              activeCommunity={community}
+                              shape={filters.shape}
+                              onCommunitySelect={(name) => updateFilters({ community: name })}
+                              onShapeChange={(shape) => updateFilters({ shape })}
+                            />
+                          ) : viewMode === 'table' ? (
+                            <PropertyTable
+                              properties={pagingMode === 'pages' ? pagedProperties : currentCommunityProperties}
+                              sort={filters.sort}
+                              onSortChange={(sort) => updateFilters({ sort })}
+                            />
+                          ) : pagingMode === 'pages' ? (
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                              {pagedProperties.map(renderPropertyCard)}
+                            </div>
+                          ) : (
+                            <WindowedGrid
+                              items={currentCommunityProperties}
+                              getKey={(property) => property.id}
+                              renderItem={renderPropertyCard}
+                              batchSize={filters.pageSize}
+                              resetKey={resultsKey}
+                            />
+                          )}
+                          {pagingMode === 'pages' && (
+                            <ListingPagination
+                              page={currentPage}
+                              pageCount={pageCount}
+                              pageSize={filters.pageSize}
+                              total={currentCommunityProperties.length}
+                              getPageHref={(page) => getFiltersHref({ page })}
+                              onPageChange={(page) => updateFilters({ page })}
+                              onPageSizeChange={(pageSize) => updateFilters({ pageSize })}
+                            />
+                          )}
+                        </>
+                      ) : !isCurrentTabLoading ? (
+                        <div className="text-center py-12">
+                          <div className="text-muted-foreground text-lg mb-4">
+                            {currentTabError ?
+                              `Failed to load commercial properties for ${activeTab} in ${community}. Please try again.` :
+                              `No commercial properties found in ${community} matching your criteria.`
+                            }
+                          </div>
+                          {currentTabError ? (
+                            <Button onClick={() => currentQuery.refetch()} className="mt-4">
+                              Try Again
+                            </Button>
+                          ) : (
+                            <Button onClick={clearFilters} className="mt-4">Clear Filters</Button>
+                          )}
+                        </div>
+                      ) : null}
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              </TabsContent>
+            </Tabs>
+
+            {/* Contact Modal */}
+            <Dialog open={selectedProperty !== null} onOpenChange={(open) => !open && setSelectedProperty(null)}>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-gradient-card border-2">
+                <DialogHeader>
+                  <DialogTitle className="text-2xl font-bold text-primary">
+                    Contact Us About {selectedProperty?.title}
+                  </DialogTitle>
+                  <DialogClose />
+                </DialogHeader>
+
+                {selectedProperty && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {/* Property Details */}
+                    <div>
+                      <img
+                        src={selectedProperty.images[0]}
+                        alt={selectedProperty.title}
+                        loading="lazy"
+                        className="w-full h-48 object-cover rounded-lg mb-4"
+                        onError={(e) => {
+                          const target = e.target as HTMLImageElement;
+                          target.src = heroProperty1;
+                        }}
+                      />
+                      <PropertyAttributes property={selectedProperty} />
+                      {selectedProperty.description && (
+                        <p className="text-sm text-muted-foreground mt-4 line-clamp-6 whitespace-pre-line">
+                          {selectedProperty.description}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Contact Form */}
+                    <EnquiryForm property={selectedProperty} onSubmitted={() => setSelectedProperty(null)} />
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+        <CompareTray />
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
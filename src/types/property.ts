@@ -0,0 +1,41 @@
+import type { CategoryId } from '@/config/categories';
+
+export type ListingType = 'sale' | 'rent';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Property {
+  id: string;
+  title: string;
+  price: number;
+  area: number;
+  /** The feed gave no area, so `area` is a placeholder and price per sq ft is unknown */
+  isAreaEstimated?: boolean;
+  bedrooms: number;
+  community: string;
+  images: string[];
+  type: ListingType;
+  propertyType: 'commercial' | 'residential';
+  /** Canonical category label, e.g. "Office" */
+  category?: string;
+  categoryId?: CategoryId;
+  /** Category exactly as it appears in the Goyzer feed */
+  rawCategory?: string;
+  agentName?: string;
+  // Commercial attributes - omitted when the feed doesn't provide them
+  buildingName?: string;
+  floor?: string;
+  parkingSpaces?: number;
+  fitOutStatus?: string;
+  /** Annual service charge in AED per sq ft */
+  serviceCharge?: number;
+  view?: string;
+  permitNumber?: string;
+  description?: string;
+  /** ISO 8601 date the unit was listed */
+  listingDate?: string;
+  coordinates?: Coordinates;
+}
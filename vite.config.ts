@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // Forward feed requests to the local listings service (npm run dev:api)
+    proxy: {
+      "/api": `http://localhost:${process.env.LISTINGS_API_PORT || 3001}`,
+    },
   },
   plugins: [
     react(),